@@ -2,7 +2,11 @@
 
 import { motion } from 'framer-motion'
 import { useState, useCallback, useEffect, memo } from 'react'
-import type { ImageData } from '@/lib/images'
+import { aspectRatio, formatDuration, type ImageData } from '@/lib/images'
+import ResponsiveImage from '@/components/ResponsiveImage'
+
+/** Matches the grid: 2 columns, 3 from sm, 4 from lg */
+const GRID_SIZES = '(min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw'
 
 interface ImageCardProps {
   image: ImageData
@@ -16,6 +20,8 @@ interface ImageCardProps {
  * - Clean hover: subtle scale + fade overlay (desktop only)
  * - Date/time shown below image
  * - "LOCKET" source tag
+ * - Responsive derivatives (srcset) when the upload has them
+ * - Blurred placeholder until the image has loaded, then a cross-fade
  * - No rounded corners, no shadows — just the image
  * - Mobile: no hover scale, no layoutId shared element transition
  */
@@ -51,8 +57,24 @@ function ImageCard({ image, layoutId, isSelected = false }: ImageCardProps) {
       {/* Image container */}
       <div
         className="relative overflow-hidden cursor-pointer group"
-        style={{ aspectRatio: '1 / 1' }}
+        style={{ aspectRatio: aspectRatio(image) }}
       >
+        {/* Placeholder — dominant color and blurred preview painted at once, fades out as the image fades in */}
+        <div
+          className={`absolute inset-0 bg-neutral-50 transition-opacity duration-500 ease-out ${isLoaded && !isSelected ? 'opacity-0' : 'opacity-100'}`}
+          style={{ backgroundColor: image.palette?.dominant }}
+        >
+          {image.placeholder && (
+            <img
+              src={image.placeholder}
+              alt=""
+              aria-hidden
+              className="w-full h-full object-cover blur-lg scale-110"
+              draggable={false}
+            />
+          )}
+        </div>
+
         {!isSelected && (
           <motion.div
             layoutId={isMobile ? undefined : layoutId}
@@ -61,12 +83,14 @@ function ImageCard({ image, layoutId, isSelected = false }: ImageCardProps) {
               layout: { duration: 0.35, ease: [0.25, 0.1, 0.25, 1] }
             }}
           >
-            <img
+            <ResponsiveImage
+              image={image}
               src={image.thumbnail_url || image.image_url}
+              sizes={GRID_SIZES}
               alt={image.title || ''}
               className={`
                 w-full h-full object-cover
-                transition-all duration-300 ease-out
+                transition-all duration-500 ease-out
                 sm:group-hover:scale-[1.02]
                 ${isLoaded ? 'opacity-100' : 'opacity-0'}
               `}
@@ -87,19 +111,26 @@ function ImageCard({ image, layoutId, isSelected = false }: ImageCardProps) {
           </motion.div>
         )}
 
-        {/* Video indicator — minimal */}
+        {/* Video indicator — duration badge, or just the play icon when unknown */}
         {image.video_url && !isSelected && (
           <div className="absolute top-3 left-3 z-10 pointer-events-none opacity-70 sm:group-hover:opacity-100 transition-opacity duration-300">
-            <svg className="w-4 h-4 text-white drop-shadow-sm" fill="currentColor" viewBox="0 0 20 20">
-              <path d="M6.3 2.841A1.5 1.5 0 004 4.11V15.89a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
-            </svg>
+            {formatDuration(image.video?.duration) ? (
+              <div className="flex items-center gap-1 rounded-full bg-black/40 backdrop-blur-sm pl-1 pr-1.5 py-0.5">
+                <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                  <path d="M6.3 2.841A1.5 1.5 0 004 4.11V15.89a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
+                </svg>
+                <span className="text-[10px] font-medium text-white tabular-nums leading-none">
+                  {formatDuration(image.video?.duration)}
+                </span>
+              </div>
+            ) : (
+              <svg className="w-4 h-4 text-white drop-shadow-sm" fill="currentColor" viewBox="0 0 20 20">
+                <path d="M6.3 2.841A1.5 1.5 0 004 4.11V15.89a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
+              </svg>
+            )}
           </div>
         )}
 
-        {/* Placeholder */}
-        {(!isLoaded || isSelected) && (
-          <div className="absolute inset-0 bg-neutral-50" />
-        )}
       </div>
 
       {/* Spacing below image — consistent height regardless of caption */}
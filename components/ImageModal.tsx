@@ -2,7 +2,9 @@
 
 import { motion, AnimatePresence, useMotionValue, useTransform, animate as motionAnimate } from 'framer-motion'
 import { useEffect, useCallback, useRef, useState } from 'react'
-import type { ImageData } from '@/lib/images'
+import { aspectRatio, exifSummary, variantSrcSet, type ImageData } from '@/lib/images'
+import ResponsiveImage from '@/components/ResponsiveImage'
+import TagChips from '@/components/TagChips'
 
 interface ImageModalProps {
   image: ImageData | null
@@ -11,6 +13,9 @@ interface ImageModalProps {
   onNavigate?: (image: ImageData) => void
 }
 
+/** The viewer is at most max-w-5xl (1024px) wide */
+const VIEWER_SIZES = '(min-width: 1024px) 1024px, 100vw'
+
 /**
  * Format a date string / ISO / timestamp into "21.02.2026 — 14:30"
  */
@@ -34,6 +39,7 @@ function formatDateTime(dateStr?: string): string {
  * - Native event listener with { passive: false } for proper preventDefault
  * - touch-action: none on modal root — stops browser gesture interference
  * - Body scroll fully locked on mobile via position:fixed trick
+ * - Blurred placeholder painted at once, cross-fades to the loaded image
  */
 export default function ImageModal({
   image,
@@ -43,6 +49,9 @@ export default function ImageModal({
 }: ImageModalProps) {
   const isOpen = image !== null
 
+  // Id of the image whose media has loaded — its placeholder fades out then
+  const [loadedId, setLoadedId] = useState<number | null>(null)
+
   const lastImageRef = useRef<ImageData | null>(null)
   if (image) lastImageRef.current = image
   const displayImage = image ?? lastImageRef.current
@@ -96,17 +105,31 @@ export default function ImageModal({
   onCloseRef.current = onClose
 
   // ── Preload adjacent images ──
+  // Images with derivatives are preloaded through a detached <picture> built
+  // like ResponsiveImage's, so the browser fetches the copy it will show.
   useEffect(() => {
     if (!isOpen || idx < 0) return
     const preload = (url: string) => { const img = new window.Image(); img.src = url }
-    if (idx > 0) {
-      preload(images[idx - 1].image_url)
-      if (images[idx - 1].thumbnail_url) preload(images[idx - 1].thumbnail_url!)
-    }
-    if (idx < images.length - 1) {
-      preload(images[idx + 1].image_url)
-      if (images[idx + 1].thumbnail_url) preload(images[idx + 1].thumbnail_url!)
+    const preloadImage = (neighbour: ImageData) => {
+      if (!neighbour.variants?.length) {
+        preload(neighbour.image_url)
+        if (neighbour.thumbnail_url) preload(neighbour.thumbnail_url)
+        return
+      }
+      const picture = document.createElement('picture')
+      for (const format of ['avif', 'webp'] as const) {
+        const source = document.createElement('source')
+        source.type = `image/${format}`
+        source.sizes = VIEWER_SIZES
+        source.srcset = variantSrcSet(neighbour, format)
+        picture.appendChild(source)
+      }
+      const img = picture.appendChild(new window.Image())
+      img.sizes = VIEWER_SIZES
+      img.srcset = variantSrcSet(neighbour, 'jpeg')
     }
+    if (idx > 0) preloadImage(images[idx - 1])
+    if (idx < images.length - 1) preloadImage(images[idx + 1])
   }, [isOpen, idx, images])
 
   // ── Lock body scroll — position:fixed trick for iOS Safari ──
@@ -274,7 +297,13 @@ export default function ImageModal({
   }, [dragY, dragX])
 
   const dateTime = displayImage ? formatDateTime(displayImage.created_at) : ''
+  const camera = exifSummary(displayImage?.exif)
+  // Browsers without color-mix() ignore it and keep bg-white
+  const backdropTint = displayImage?.palette
+    ? `color-mix(in srgb, ${displayImage.palette.dominant} 8%, white)`
+    : undefined
   const counter = idx >= 0 ? `${idx + 1} / ${images.length}` : ''
+  const viewerHeight = isMobile ? 'calc(100dvh - 148px)' : 'calc(100dvh - 180px)'
   const appleEase = [0.25, 0.1, 0.25, 1] as const
 
   return (
@@ -302,8 +331,10 @@ export default function ImageModal({
               layoutId={isMobile ? undefined : `image-${image.id}`}
               className="relative w-full max-w-5xl pointer-events-none"
               style={{
-                aspectRatio: '1 / 1',
-                maxHeight: isMobile ? 'calc(100dvh - 148px)' : 'calc(100dvh - 180px)',
+                aspectRatio: aspectRatio(image),
+                maxHeight: viewerHeight,
+                // Narrower than max-w-5xl when the height limit would letterbox it
+                maxWidth: `min(64rem, calc(${viewerHeight} * ${aspectRatio(image)}))`,
                 y: dragY,
                 x: dragX,
                 ...(isMobile ? {} : { scale: desktopImageScale }),
@@ -313,11 +344,21 @@ export default function ImageModal({
                 layout: { duration: 0.4, ease: appleEase }
               }}
             >
+              {image.placeholder && (
+                <img
+                  src={image.placeholder}
+                  alt=""
+                  aria-hidden
+                  className={`absolute inset-0 w-full h-full object-contain blur-xl transition-opacity duration-500 ease-out ${loadedId === image.id ? 'opacity-0' : 'opacity-100'}`}
+                  draggable={false}
+                />
+              )}
+
               {image.video_url ? (
                 <video
                   key={image.video_url}
                   src={image.video_url}
-                  poster={image.image_url}
+                  poster={image.video?.poster_url || image.image_url}
                   autoPlay
                   loop
                   muted
@@ -325,15 +366,19 @@ export default function ImageModal({
                   controlsList="nodownload nofullscreen noremoteplayback"
                   disablePictureInPicture
                   onContextMenu={(e) => e.preventDefault()}
+                  onLoadedData={() => setLoadedId(image.id)}
                   className="absolute inset-0 w-full h-full object-contain"
                 />
               ) : (
-                <img
+                <ResponsiveImage
+                  image={image}
                   src={image.image_url}
+                  sizes={VIEWER_SIZES}
                   alt={image.title || ''}
-                  className="absolute inset-0 w-full h-full object-contain"
+                  className={`absolute inset-0 w-full h-full object-contain transition-opacity duration-500 ease-out ${loadedId === image.id || !image.placeholder ? 'opacity-100' : 'opacity-0'}`}
                   draggable={false}
                   onContextMenu={(e) => e.preventDefault()}
+                  onLoad={() => setLoadedId(image.id)}
                   onError={(e) => {
                     const target = e.target as HTMLImageElement
                     if (image.thumbnail_url && target.src !== image.thumbnail_url) {
@@ -360,10 +405,10 @@ export default function ImageModal({
             exit={{ opacity: 0 }}
             transition={{ duration: 0.3, ease: appleEase }}
           >
-            {/* White backdrop — fades with vertical drag */}
+            {/* White backdrop, faintly tinted with the image's dominant color — fades with vertical drag */}
             <motion.div
               className="absolute inset-0 bg-white"
-              style={{ opacity: backdropOpacity }}
+              style={{ opacity: backdropOpacity, backgroundColor: backdropTint }}
               onClick={isMobile ? undefined : onClose}
             />
 
@@ -519,11 +564,21 @@ export default function ImageModal({
                   </p>
                 )}
 
+                {camera && (
+                  <p className="text-[9px] sm:text-[10px] text-neutral-400 tracking-[0.1em] font-light">
+                    {camera}
+                  </p>
+                )}
+
                 {displayImage.source === 'locket' && (
                   <p className="text-[8px] sm:text-[9px] tracking-[0.2em] text-neutral-300 uppercase font-medium mt-0.5 sm:mt-1">
                     synced from locket
                   </p>
                 )}
+
+                {displayImage.tags && displayImage.tags.length > 0 && (
+                  <TagChips tags={displayImage.tags} className="mt-0.5 sm:mt-1 pointer-events-auto" />
+                )}
               </div>
             </div>
           </motion.div>
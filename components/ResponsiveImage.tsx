@@ -0,0 +1,41 @@
+'use client'
+
+import { useState, type ImgHTMLAttributes } from 'react'
+import { variantSrcSet, type ImageData } from '@/lib/images'
+
+interface ResponsiveImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> {
+  image: ImageData
+  /** Used when the image has no derivatives (Locket moments, older uploads) */
+  src: string
+  sizes: string
+}
+
+/**
+ * <picture> built from image.variants — AVIF and WebP sources with a JPEG
+ * srcset on the <img>, so the browser picks the smallest copy it can decode
+ * that fills `sizes`.
+ *
+ * If a derivative fails to load, the plain `src` takes over and the
+ * caller's onError fallback applies as before.
+ */
+export default function ResponsiveImage({ image, src, sizes, onError, ...imgProps }: ResponsiveImageProps) {
+  const [broken, setBroken] = useState(false)
+
+  if (!image.variants?.length || broken) {
+    return <img src={src} onError={onError} {...imgProps} />
+  }
+
+  return (
+    <picture>
+      <source type="image/avif" srcSet={variantSrcSet(image, 'avif')} sizes={sizes} />
+      <source type="image/webp" srcSet={variantSrcSet(image, 'webp')} sizes={sizes} />
+      <img
+        src={src}
+        srcSet={variantSrcSet(image, 'jpeg')}
+        sizes={sizes}
+        onError={() => setBroken(true)}
+        {...imgProps}
+      />
+    </picture>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import Link from 'next/link'
+import type { UrlObject } from 'url'
+import { tagHref } from '@/lib/tags'
+
+interface TagChipsProps {
+  tags: string[]
+  /** Highlighted tags (the current filter) */
+  active?: string[]
+  /** Link target per tag — defaults to the gallery filtered by that tag */
+  href?: (tag: string) => string | UrlObject
+  counts?: Record<string, number>
+  className?: string
+}
+
+/**
+ * TagChips — "#tag" links to tag-filtered gallery views
+ */
+export default function TagChips({ tags, active = [], href = tagHref, counts, className = '' }: TagChipsProps) {
+  if (tags.length === 0) return null
+
+  return (
+    <div className={`flex flex-wrap items-center justify-center gap-x-3 gap-y-1 ${className}`}>
+      {tags.map((tag) => (
+        <Link
+          key={tag}
+          href={href(tag)}
+          scroll={false}
+          className={`
+            text-[9px] sm:text-[10px] tracking-[0.2em] uppercase transition-colors duration-150
+            ${active.includes(tag) ? 'text-black font-medium' : 'text-neutral-300 hover:text-neutral-600'}
+          `}
+        >
+          #{tag}
+          {counts?.[tag] !== undefined && (
+            <span className="ml-1 text-neutral-300 tabular-nums">{counts[tag]}</span>
+          )}
+        </Link>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+/**
+ * Album — a named, ordered collection of gallery images
+ *
+ * Albums reference images by id, so one image can sit in several albums.
+ * Client-safe like lib/images.ts; reads and writes go through lib/db.
+ */
+import type { ImageData } from '@/lib/images'
+import { slugify } from '@/lib/slug'
+
+export type Album = {
+  id: number
+  slug: string
+  title: string
+  description?: string
+  cover_image_id?: number | null  // Falls back to the first image when unset
+  image_ids: number[]             // Album order
+  order_index: number
+  created_at: string
+  updated_at: string
+}
+
+export type NewAlbumData = Omit<Album, 'id' | 'created_at' | 'updated_at'>
+
+/** Album as served by /api/albums — cover and count resolved against visible images */
+export type AlbumSummary = Album & {
+  cover: ImageData | null
+  image_count: number
+}
+
+/** Stored albums may lack optional fields (SQLite drops nulls) */
+export function normalizeAlbum(raw: any): Album {
+  return {
+    description: '',
+    cover_image_id: null,
+    order_index: 0,
+    ...raw,
+    image_ids: Array.isArray(raw?.image_ids) ? raw.image_ids.map(Number).filter(Boolean) : [],
+  }
+}
+
+/**
+ * Pick and validate album fields from a request body. With `partial`
+ * (updates) every field is optional; otherwise a title is required and the
+ * slug defaults to the slugified title.
+ */
+export function parseAlbumInput(
+  body: any,
+  partial = false
+): { data: Partial<NewAlbumData>; error?: string } {
+  const data: Partial<NewAlbumData> = {}
+  const input = body && typeof body === 'object' ? body : {}
+
+  if (input.title !== undefined) {
+    if (typeof input.title !== 'string' || !input.title.trim()) return { data, error: 'Title must be a non-empty string' }
+    data.title = input.title.trim()
+  } else if (!partial) {
+    return { data, error: 'Album title required' }
+  }
+
+  if (input.slug !== undefined || !partial) {
+    const slug = slugify(String(input.slug || data.title || ''))
+    if (!slug) return { data, error: 'Album slug must contain letters or digits' }
+    data.slug = slug
+  }
+
+  if (input.description !== undefined) data.description = String(input.description ?? '')
+
+  if (input.image_ids !== undefined) {
+    if (!Array.isArray(input.image_ids)) return { data, error: 'image_ids must be an array' }
+    const ids = input.image_ids.map(Number)
+    if (ids.some((id: number) => !Number.isInteger(id) || id <= 0)) return { data, error: 'image_ids must be image ids' }
+    data.image_ids = Array.from(new Set<number>(ids))
+  } else if (!partial) {
+    data.image_ids = []
+  }
+
+  if (input.cover_image_id !== undefined) {
+    data.cover_image_id = input.cover_image_id === null ? null : Number(input.cover_image_id) || null
+  }
+
+  if (input.order_index !== undefined) data.order_index = Number(input.order_index) || 0
+  else if (!partial) data.order_index = 0
+
+  return { data }
+}
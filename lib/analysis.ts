@@ -0,0 +1,65 @@
+/**
+ * Pixel-derived image data — the blurred placeholder (lib/placeholder), the
+ * color palette (lib/palette) and the perceptual hash (lib/phash) — computed
+ * together from one read of the image.
+ *
+ * Uploads are analyzed from the local file. Synced Locket images are
+ * analyzed from their thumbnail (the local copy once mirrored) when they are
+ * synced, and older records by the backfill in /api/admin/analyze; a result
+ * is kept from then on.
+ */
+import type { ImageData } from '@/lib/images'
+import { extractPalette } from '@/lib/palette'
+import { perceptualHash } from '@/lib/phash'
+import { createPlaceholder } from '@/lib/placeholder'
+import { readMedia } from '@/lib/uploads'
+
+export type ImageAnalysis = Required<Pick<ImageData, 'placeholder' | 'palette' | 'phash'>>
+
+const FETCH_TIMEOUT_MS = 10_000
+const FETCH_CONCURRENCY = 4
+
+export async function analyzeImage(input: string | Buffer): Promise<ImageAnalysis> {
+  const [placeholder, palette, phash] = await Promise.all([
+    createPlaceholder(input),
+    extractPalette(input),
+    perceptualHash(input),
+  ])
+  return { placeholder, palette, phash }
+}
+
+/**
+ * Analyze an image URL — a local /uploads/ path or a remote (Locket CDN)
+ * URL; null when it can't be read or decoded
+ */
+export async function analyzeUrl(url: string): Promise<ImageAnalysis | null> {
+  try {
+    return await analyzeImage(await readMedia(url, FETCH_TIMEOUT_MS))
+  } catch (error: any) {
+    console.error('Image analysis error:', url, error?.message || error)
+    return null
+  }
+}
+
+export function needsAnalysis(image: ImageData): boolean {
+  return !image.placeholder || !image.palette || !image.phash
+}
+
+/**
+ * Analyze the images that lack any of the above, from their
+ * thumbnail (or image) URL, a few at a time. Images that fail are left out.
+ */
+export async function analyzeMissing(images: ImageData[]): Promise<Map<number, ImageAnalysis>> {
+  const queue = images.filter(img => needsAnalysis(img) && (img.thumbnail_url || img.image_url))
+  const results = new Map<number, ImageAnalysis>()
+
+  const worker = async () => {
+    for (let img = queue.shift(); img; img = queue.shift()) {
+      const analysis = await analyzeUrl(img.thumbnail_url || img.image_url)
+      if (analysis) results.set(img.id, analysis)
+    }
+  }
+  await Promise.all(Array.from({ length: FETCH_CONCURRENCY }, worker))
+
+  return results
+}
@@ -0,0 +1,112 @@
+/**
+ * Audit trail — who changed what, when, and through which route
+ *
+ * Every write that goes through lib/db, lib/trash or lib/snapshots records an
+ * AuditEvent in the storage backend's `events` collection. Per-image events
+ * carry a field-level before/after diff, which is enough to rebuild any
+ * earlier revision of an image by undoing the newer diffs (see revertImage
+ * in lib/db). Gallery-wide events (reset, snapshot restore, migrate) have
+ * image_id null and put their summary in `details`.
+ */
+import type { NextApiRequest } from 'next'
+import type { ImageData } from '@/lib/images'
+import { getStorage } from '@/lib/storage'
+
+export type AuditAction =
+  | 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'revert' | 'sync'
+  | 'reset' | 'snapshot-restore' | 'migrate' | 'reorder' | 'settings'
+
+export type FieldChange = { from: unknown; to: unknown }
+
+export type AuditEvent = {
+  id: number
+  image_id: number | null
+  slug?: string
+  action: AuditAction
+  actor: string              // 'admin', 'locket:<uid>' or 'system'
+  route?: string             // 'PUT /api/admin/images'
+  created_at: string
+  changes: Record<string, FieldChange>
+  details?: Record<string, unknown>
+}
+
+export type AuditContext = {
+  actor: string
+  route?: string
+}
+
+/** Writes that don't come from a request (auto-purge, scripts) */
+export const SYSTEM_CONTEXT: AuditContext = { actor: 'system' }
+
+/** Fields that change on every write and would only add noise to a diff */
+const IGNORED_FIELDS = new Set(['id', 'updated_at'])
+
+export function auditContext(req: NextApiRequest, actor = 'admin'): AuditContext {
+  return { actor, route: `${req.method} ${(req.url || '').split('?')[0]}` }
+}
+
+/**
+ * Field-level diff of two versions of a record; missing and null count as equal
+ */
+export function diffRecords(before: object, after: object): Record<string, FieldChange> {
+  const from = before as Record<string, unknown>
+  const to = after as Record<string, unknown>
+  const changes: Record<string, FieldChange> = {}
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)])
+  for (const key of Array.from(keys)) {
+    if (IGNORED_FIELDS.has(key)) continue
+    if (JSON.stringify(from[key] ?? null) !== JSON.stringify(to[key] ?? null)) {
+      changes[key] = { from: from[key], to: to[key] }
+    }
+  }
+  return changes
+}
+
+/** Audit event for one image; `before` is null for newly created images */
+export function imageEvent(
+  action: AuditAction,
+  before: ImageData | null,
+  after: ImageData,
+  details?: Record<string, unknown>
+): Omit<AuditEvent, 'id' | 'created_at' | 'actor' | 'route'> {
+  return { image_id: after.id, slug: after.slug, action, changes: diffRecords(before || {}, after), details }
+}
+
+/**
+ * Append events. A failing audit write is logged but never undoes or fails
+ * the change it describes, which has already been stored.
+ */
+export async function recordEvents(
+  context: AuditContext,
+  events: Array<Omit<AuditEvent, 'id' | 'created_at' | 'actor' | 'route'>>
+): Promise<void> {
+  if (events.length === 0) return
+  const created_at = new Date().toISOString()
+  try {
+    await getStorage().events.insert(events.map(event => ({
+      ...event,
+      actor: context.actor,
+      route: context.route,
+      created_at,
+    })))
+  } catch (error) {
+    console.error('Audit write failed:', error)
+  }
+}
+
+/**
+ * Events for one image, newest first. A Locket reset renumbers every image,
+ * so only events after the last reset belong to the current image with this id.
+ */
+export async function getImageHistory(imageId: number): Promise<AuditEvent[]> {
+  const events = await getStorage().events.list()
+  const lastReset = Math.max(0, ...events.filter(e => e.action === 'reset').map(e => e.id))
+  return events
+    .filter(e => e.image_id === imageId && e.id > lastReset)
+    .sort((a, b) => b.id - a.id)
+}
+
+/** Stored events may lack optional fields (SQLite drops nulls) */
+export function normalizeEvent(raw: any): AuditEvent {
+  return { image_id: null, changes: {}, ...raw }
+}
@@ -0,0 +1,16 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+/**
+ * Check the admin Bearer token. Sends 401 and returns false when it's missing
+ * or wrong, so handlers can `if (!requireAdmin(req, res)) return`.
+ */
+export function requireAdmin(req: NextApiRequest, res: NextApiResponse): boolean {
+  const authHeader = req.headers.authorization
+  const adminPassword = process.env.ADMIN_PASSWORD || 'admin123'
+
+  if (!authHeader || authHeader !== `Bearer ${adminPassword}`) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return false
+  }
+  return true
+}
@@ -0,0 +1,43 @@
+/**
+ * Media work after a Locket sync or reset — local copies (lib/mirror), then
+ * real dimensions and video metadata (lib/probe), then placeholders, palettes
+ * and hashes (lib/analysis)
+ *
+ * Downloads, MP4 probing and sharp can take minutes for a few videos, longer
+ * than a proxy waits for a response. So one request handles at most
+ * LOCKET_MEDIA_BATCH images (default 10) and reports how many still wait;
+ * the next sync, `npm run locket:mirror` and /api/admin/analyze pick them up.
+ */
+import { analyzeMissing, needsAnalysis } from '@/lib/analysis'
+import { setImageAnalysis, setImageMetadata, setMirroredMedia } from '@/lib/db'
+import type { ImageData } from '@/lib/images'
+import { mirrorMissing, needsMirror } from '@/lib/mirror'
+import { needsProbe, probeMissing } from '@/lib/probe'
+
+const DEFAULT_BATCH = 10
+
+function batchSize(): number {
+  const size = Number(process.env.LOCKET_MEDIA_BATCH ?? DEFAULT_BATCH)
+  return Number.isInteger(size) && size > 0 ? size : DEFAULT_BATCH
+}
+
+function needsMedia(image: ImageData): boolean {
+  return needsMirror(image) || needsProbe(image) || needsAnalysis(image)
+}
+
+/**
+ * Mirror, probe and analyze the first images (in the given order) that need
+ * any of it. Failures are logged and left for a later run.
+ */
+export async function processMediaBatch(images: ImageData[]): Promise<{ processedCount: number; pendingCount: number }> {
+  const pending = images.filter(needsMedia)
+  const batch = pending.slice(0, batchSize())
+
+  const mirrored = await mirrorMissing(batch)
+  await setMirroredMedia(mirrored)
+  const records = batch.map(img => ({ ...img, ...mirrored.get(img.id) }))
+  await setImageMetadata(await probeMissing(records))
+  await setImageAnalysis(await analyzeMissing(records))
+
+  return { processedCount: batch.length, pendingCount: pending.length - batch.length }
+}
@@ -0,0 +1,144 @@
+/**
+ * Bulk admin operations — one operation applied to many images
+ *
+ * Every id is checked before anything is written: unknown ids reject the
+ * whole request. A single snapshot is taken before the operation runs, so
+ * the batch can be undone from /api/admin/snapshots. Each image gets its own
+ * result — ok with `changed` when the operation applied (or already held),
+ * or an error when it can't apply to that image (e.g. it is in the trash).
+ */
+import type { AuditContext } from '@/lib/audit'
+import { getAlbumById, getImageById, moveImagesToAlbum, setImageVisibility, updateImages, updateImageTags } from '@/lib/db'
+import { isVisibility, type ImageData, type Visibility } from '@/lib/images'
+import { createSnapshot } from '@/lib/snapshots'
+import { normalizeTags } from '@/lib/tags'
+import { isTrashed, trashImages } from '@/lib/trash'
+
+export const BULK_OPS = ['delete', 'visibility', 'tags', 'album', 'caption'] as const
+
+export type BulkOperation =
+  | { op: 'delete' }
+  | { op: 'visibility'; visibility: Visibility }
+  | { op: 'tags'; add: string[]; remove: string[] }
+  | { op: 'album'; albumId: number }
+  | { op: 'caption'; caption: string }
+
+export type BulkItemResult = {
+  id: number
+  ok: boolean
+  changed: boolean
+  error?: string
+}
+
+export type BulkResult = {
+  op: BulkOperation['op']
+  snapshot: string
+  results: BulkItemResult[]
+  changedCount: number
+  failedCount: number
+}
+
+/**
+ * Pick and validate the operation from a request body
+ */
+export function parseBulkOperation(body: any): { operation?: BulkOperation; error?: string } {
+  const input = body && typeof body === 'object' ? body : {}
+
+  switch (input.op) {
+    case 'delete':
+      return { operation: { op: 'delete' } }
+
+    case 'visibility':
+      if (!isVisibility(input.visibility)) return { error: 'visibility must be public, unlisted or private' }
+      return { operation: { op: 'visibility', visibility: input.visibility } }
+
+    case 'tags': {
+      const add = normalizeTags(input.add)
+      const remove = normalizeTags(input.remove)
+      if (add.length === 0 && remove.length === 0) return { error: 'Nothing to add or remove' }
+      return { operation: { op: 'tags', add, remove } }
+    }
+
+    case 'album': {
+      const albumId = Number(input.albumId)
+      if (!Number.isInteger(albumId) || albumId <= 0) return { error: 'albumId required' }
+      return { operation: { op: 'album', albumId } }
+    }
+
+    case 'caption':
+      if (typeof input.caption !== 'string') return { error: 'caption must be a string' }
+      return { operation: { op: 'caption', caption: input.caption.trim() } }
+
+    default:
+      return { error: `op must be one of ${BULK_OPS.join(', ')}` }
+  }
+}
+
+/**
+ * Run one operation over many images. Returns the unknown ids instead
+ * (nothing written, no snapshot) when any id or the target album is missing.
+ */
+export async function runBulkOperation(
+  ids: number[],
+  operation: BulkOperation,
+  context: AuditContext
+): Promise<BulkResult | { unknownIds: number[] } | { unknownAlbum: number }> {
+  const images = await Promise.all(ids.map(id => getImageById(id)))
+  const unknownIds = ids.filter((_, i) => !images[i])
+  if (unknownIds.length > 0) return { unknownIds }
+
+  if (operation.op === 'album' && !(await getAlbumById(operation.albumId))) {
+    return { unknownAlbum: operation.albumId }
+  }
+
+  const snapshot = await createSnapshot(`bulk-${operation.op}`)
+
+  // Trashed images are reported per item; they have to be restored first
+  const results = new Map<number, BulkItemResult>()
+  const live: ImageData[] = []
+  for (const image of images as ImageData[]) {
+    if (isTrashed(image)) {
+      results.set(image.id, { id: image.id, ok: false, changed: false, error: 'Image is in the trash' })
+    } else {
+      live.push(image)
+    }
+  }
+
+  const changed = new Set(await applyOperation(live, operation, context))
+  for (const { id } of live) results.set(id, { id, ok: true, changed: changed.has(id) })
+
+  const ordered = ids.map(id => results.get(id) as BulkItemResult)
+  return {
+    op: operation.op,
+    snapshot: snapshot.id,
+    results: ordered,
+    changedCount: ordered.filter(r => r.changed).length,
+    failedCount: ordered.filter(r => !r.ok).length,
+  }
+}
+
+/** Apply the operation to images known to exist; returns the ids that changed */
+async function applyOperation(images: ImageData[], operation: BulkOperation, context: AuditContext): Promise<number[]> {
+  if (images.length === 0) return []
+  const ids = images.map(img => img.id)
+
+  switch (operation.op) {
+    case 'delete':
+      return trashImages(ids, context)
+
+    case 'visibility':
+      return (await setImageVisibility(ids, operation.visibility, context)).map(img => img.id)
+
+    case 'tags': {
+      const before = new Map(images.map(img => [img.id, JSON.stringify(img.tags || [])]))
+      const updated = await updateImageTags(ids, operation, context)
+      return updated.filter(img => before.get(img.id) !== JSON.stringify(img.tags || [])).map(img => img.id)
+    }
+
+    case 'album':
+      return (await moveImagesToAlbum(ids, operation.albumId)) || []
+
+    case 'caption':
+      return (await updateImages(ids, { caption: operation.caption || undefined }, context)).map(img => img.id)
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Resumable chunked uploads
+ *
+ * For files too big, or connections too flaky, for one multipart request.
+ * A client opens a session with the file's name and size, PUTs the parts
+ * (`chunk_size` bytes each, the last one shorter) in any order, asks which
+ * parts arrived after a dropped connection, and completes the session: the
+ * parts are joined and the file goes through lib/ingest like any upload.
+ * A part only counts once it was received whole, so resending it is safe,
+ * and the parts are only dropped once the file was ingested.
+ *
+ * Sessions live in UPLOAD_SESSION_DIR (default database/uploads) — a
+ * session.json plus one file per part — so they survive a restart.
+ * Sessions untouched for UPLOAD_SESSION_TTL_HOURS (default 24) are removed
+ * whenever a session is opened or listed.
+ */
+import { randomBytes } from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { maxUploadSize, type IncomingFile, type UploadOptions } from '@/lib/ingest'
+import { writeFileAtomic } from '@/lib/storage/atomic'
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+const MIN_CHUNK_SIZE = 256 * 1024
+const MAX_CHUNK_SIZE = 50 * 1024 * 1024
+/** Longer than any ingest, transcoding included */
+const COMPLETE_LOCK_STALE_MS = 60 * 60 * 1000
+
+export type UploadSession = {
+  id: string
+  filename: string
+  size: number
+  mime_type?: string
+  chunk_size: number
+  chunk_count: number
+  options: UploadOptions  // Applied when the upload completes
+  created_at: string
+  updated_at: string      // Last part received
+}
+
+export type UploadSessionInfo = UploadSession & {
+  received: number[]      // Part indexes, from 0
+  received_bytes: number
+  completing: boolean     // A request is joining and ingesting it
+  expires_at: string
+}
+
+export type UploadSessionInput = {
+  filename: string
+  size: number
+  mime_type?: string
+  chunk_size?: number
+}
+
+function sessionTtlHours(): number {
+  const hours = Number(process.env.UPLOAD_SESSION_TTL_HOURS ?? 24)
+  return Number.isFinite(hours) && hours > 0 ? hours : 24
+}
+
+function sessionRoot(): string {
+  return process.env.UPLOAD_SESSION_DIR || path.join(process.cwd(), 'database', 'uploads')
+}
+
+function sessionDir(id: string): string | null {
+  return /^[a-f0-9]{32}$/.test(id) ? path.join(sessionRoot(), id) : null
+}
+
+function readSession(id: string): UploadSession | null {
+  const dir = sessionDir(id)
+  if (!dir) return null
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, 'session.json'), 'utf8'))
+  } catch {
+    return null
+  }
+}
+
+function partFile(session: UploadSession, index: number): string {
+  return path.join(sessionRoot(), session.id, `${index}.part`)
+}
+
+function partSize(session: UploadSession, index: number): number {
+  return index < session.chunk_count - 1 ? session.chunk_size : session.size - session.chunk_size * (session.chunk_count - 1)
+}
+
+function receivedParts(session: UploadSession): number[] {
+  return Array.from({ length: session.chunk_count }, (_, i) => i).filter(index => {
+    try {
+      return fs.statSync(partFile(session, index)).size === partSize(session, index)
+    } catch {
+      return false
+    }
+  })
+}
+
+function sessionInfo(session: UploadSession): UploadSessionInfo {
+  const received = receivedParts(session)
+  return {
+    ...session,
+    received,
+    received_bytes: received.reduce((sum, index) => sum + partSize(session, index), 0),
+    completing: fs.existsSync(lockFile(session)),
+    expires_at: new Date(new Date(session.updated_at).getTime() + sessionTtlHours() * 60 * 60 * 1000).toISOString(),
+  }
+}
+
+function pruneUploadSessions(): void {
+  const root = sessionRoot()
+  if (!fs.existsSync(root)) return
+  const now = Date.now()
+  for (const id of fs.readdirSync(root)) {
+    const session = readSession(id)
+    const expired = !session || now > new Date(sessionInfo(session).expires_at).getTime()
+    if (expired && sessionDir(id)) fs.rmSync(path.join(root, id), { recursive: true, force: true })
+  }
+}
+
+/**
+ * Open a session for a file of a known size. Returns an error with its HTTP
+ * status when the file can't be accepted.
+ */
+export function createUploadSession(
+  input: UploadSessionInput,
+  options: UploadOptions
+): UploadSessionInfo | { error: string; status: number } {
+  const filename = path.basename(String(input.filename || ''))
+  if (!filename) return { error: 'filename is required', status: 400 }
+  if (!Number.isInteger(input.size) || input.size < 1) return { error: 'size must be a positive number of bytes', status: 400 }
+  if (input.size > maxUploadSize(input.mime_type, filename)) return { error: 'File is too large', status: 413 }
+
+  const chunkSize = input.chunk_size === undefined ? DEFAULT_CHUNK_SIZE : Number(input.chunk_size)
+  if (!Number.isInteger(chunkSize) || chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE) {
+    return { error: `chunk_size must be between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE} bytes`, status: 400 }
+  }
+
+  pruneUploadSessions()
+
+  const now = new Date().toISOString()
+  const session: UploadSession = {
+    id: randomBytes(16).toString('hex'),
+    filename,
+    size: input.size,
+    mime_type: input.mime_type || undefined,
+    chunk_size: chunkSize,
+    chunk_count: Math.ceil(input.size / chunkSize),
+    options,
+    created_at: now,
+    updated_at: now,
+  }
+  fs.mkdirSync(path.join(sessionRoot(), session.id), { recursive: true })
+  writeFileAtomic(path.join(sessionRoot(), session.id, 'session.json'), JSON.stringify(session, null, 2))
+  return sessionInfo(session)
+}
+
+/** Open sessions, most recently active first */
+export function listUploadSessions(): UploadSessionInfo[] {
+  pruneUploadSessions()
+  const root = sessionRoot()
+  if (!fs.existsSync(root)) return []
+  return fs.readdirSync(root)
+    .map(readSession)
+    .filter((session): session is UploadSession => session !== null)
+    .map(sessionInfo)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+}
+
+export function getUploadSession(id: string): UploadSessionInfo | null {
+  const session = readSession(id)
+  return session && sessionInfo(session)
+}
+
+/**
+ * Store one part from a request body. The part must have exactly its
+ * expected size; a short or long body is discarded. Returns null for an
+ * unknown session.
+ */
+export async function writeUploadPart(
+  id: string,
+  index: number,
+  body: AsyncIterable<Buffer | string>
+): Promise<UploadSessionInfo | { error: string; status: number } | null> {
+  const session = readSession(id)
+  if (!session) return null
+  if (!Number.isInteger(index) || index < 0 || index >= session.chunk_count) {
+    return { error: `part must be between 0 and ${session.chunk_count - 1}`, status: 400 }
+  }
+
+  const expected = partSize(session, index)
+  const file = partFile(session, index)
+  const temp = `${file}.tmp-${randomBytes(4).toString('hex')}`
+  let received = 0
+  const handle = await fs.promises.open(temp, 'w')
+  try {
+    for await (const chunk of body) {
+      const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk
+      received += data.length
+      if (received > expected) break
+      await handle.write(data)
+    }
+  } finally {
+    await handle.close()
+  }
+
+  if (received !== expected) {
+    fs.rmSync(temp, { force: true })
+    return { error: `Part ${index} must be ${expected} bytes`, status: 400 }
+  }
+  fs.renameSync(temp, file)
+
+  session.updated_at = new Date().toISOString()
+  writeFileAtomic(path.join(sessionRoot(), session.id, 'session.json'), JSON.stringify(session, null, 2))
+  return sessionInfo(session)
+}
+
+function lockFile(session: UploadSession): string {
+  return path.join(sessionRoot(), session.id, 'complete.lock')
+}
+
+/**
+ * Claim the session for one completion; false while another one holds it.
+ * A claim older than COMPLETE_LOCK_STALE_MS belongs to a crashed process.
+ */
+function claimSession(session: UploadSession): boolean {
+  const lock = lockFile(session)
+  try {
+    fs.writeFileSync(lock, String(process.pid), { flag: 'wx' })
+    return true
+  } catch (error: any) {
+    if (error?.code !== 'EEXIST') throw error
+  }
+  try {
+    if (Date.now() - fs.statSync(lock).mtimeMs <= COMPLETE_LOCK_STALE_MS) return false
+  } catch {
+    // Released meanwhile
+  }
+  fs.rmSync(lock, { force: true })
+  return claimSession(session)
+}
+
+/**
+ * Join the parts into one file inside the session directory, which stays
+ * private until lib/ingest has stripped it. The session is claimed until
+ * deleteUploadSession (the file was ingested) or releaseUploadSession (it
+ * wasn't — the parts are kept, so completing can be retried). Returns the
+ * missing part indexes instead while any are outstanding, { busy } while
+ * another request completes the session, or null for an unknown session.
+ */
+export async function completeUploadSession(
+  id: string
+): Promise<{ file: IncomingFile; options: UploadOptions } | { missing: number[] } | { busy: true } | null> {
+  const session = readSession(id)
+  if (!session) return null
+  const received = new Set(receivedParts(session))
+  const missing = Array.from({ length: session.chunk_count }, (_, i) => i).filter(index => !received.has(index))
+  if (missing.length > 0) return { missing }
+  if (!claimSession(session)) return { busy: true }
+
+  const filepath = joinedFile(session)
+  try {
+    const handle = await fs.promises.open(filepath, 'w')
+    try {
+      for (let index = 0; index < session.chunk_count; index++) {
+        await handle.write(await fs.promises.readFile(partFile(session, index)))
+      }
+    } finally {
+      await handle.close()
+    }
+  } catch (error) {
+    releaseUploadSession(id)
+    throw error
+  }
+
+  return {
+    file: { filepath, originalFilename: session.filename, mimetype: session.mime_type, size: session.size },
+    options: session.options,
+  }
+}
+
+function joinedFile(session: UploadSession): string {
+  return path.join(sessionRoot(), session.id, `upload${path.extname(session.filename)}`)
+}
+
+/** End a completion that failed: the joined file goes, the parts stay */
+export function releaseUploadSession(id: string): void {
+  const session = readSession(id)
+  if (!session) return
+  fs.rmSync(joinedFile(session), { force: true })
+  fs.rmSync(lockFile(session), { force: true })
+}
+
+/** Drop a session and its parts; false when it doesn't exist */
+export function deleteUploadSession(id: string): boolean {
+  const dir = sessionDir(id)
+  if (!dir || !fs.existsSync(dir)) return false
+  fs.rmSync(dir, { recursive: true, force: true })
+  return true
+}
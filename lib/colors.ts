@@ -0,0 +1,91 @@
+/**
+ * Image colors — the palette stored per image and the ?color= filter
+ *
+ * A filter color is either a family name ("blue", "pink", ...) or a hex
+ * value ("#1e90ff"). Families are HSL ranges; a hex matches palette colors
+ * that look close to it. Both are checked against the dominant color and
+ * the accents. Client-safe: the palette only comes from lib/palette.
+ */
+import type { ImageData } from '@/lib/images'
+
+export type ColorFamily =
+  | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue'
+  | 'purple' | 'pink' | 'brown' | 'black' | 'white' | 'gray'
+
+export const COLOR_FAMILIES: ColorFamily[] = [
+  'red', 'orange', 'yellow', 'green', 'teal', 'blue',
+  'purple', 'pink', 'brown', 'black', 'white', 'gray',
+]
+
+/** Upper hue bound (degrees, exclusive) of each chromatic family, in order */
+const HUES: Array<[number, ColorFamily]> = [
+  [15, 'red'], [45, 'orange'], [70, 'yellow'], [165, 'green'], [195, 'teal'],
+  [255, 'blue'], [290, 'purple'], [345, 'pink'], [360, 'red'],
+]
+
+/** Hex colors closer than this (redmean distance, 0–765) match */
+const HEX_MATCH_DISTANCE = 90
+
+export type Rgb = [number, number, number]
+
+function toRgb(hex: string): Rgb {
+  const n = parseInt(hex.slice(1), 16)
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255]
+}
+
+export function toHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`
+}
+
+/**
+ * Cheap perceptual RGB distance ("redmean"), good enough to tell colors apart
+ */
+export function colorDistance(a: Rgb, b: Rgb): number {
+  const mean = (a[0] + b[0]) / 2
+  const [dr, dg, db] = [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+  return Math.sqrt((2 + mean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - mean) / 256) * db * db)
+}
+
+export function colorFamily(hex: string): ColorFamily {
+  const [r, g, b] = toRgb(hex).map(c => c / 255)
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const lightness = (max + min) / 2
+  const chroma = max - min
+  const saturation = chroma === 0 ? 0 : chroma / (1 - Math.abs(2 * lightness - 1))
+
+  if (lightness < 0.12) return 'black'
+  if (lightness > 0.92) return 'white'
+  if (saturation < 0.15) return lightness < 0.25 ? 'black' : lightness > 0.8 ? 'white' : 'gray'
+
+  const hue = chroma === 0 ? 0
+    : max === r ? (60 * ((g - b) / chroma) + 360) % 360
+    : max === g ? 60 * ((b - r) / chroma) + 120
+    : 60 * ((r - g) / chroma) + 240
+  const family = HUES.find(([bound]) => hue < bound)?.[1] || 'red'
+
+  // Dark oranges and reds read as brown
+  return (family === 'orange' || family === 'red') && lightness < 0.35 ? 'brown' : family
+}
+
+/**
+ * A family name or hex color from user input, normalized ('blue',
+ * '#1e90ff'); null when it is neither
+ */
+export function parseColor(input: string): string | null {
+  const value = input.trim().toLowerCase()
+  if (COLOR_FAMILIES.includes(value as ColorFamily)) return value
+  const hex = value.replace(/^#/, '')
+  if (/^[0-9a-f]{6}$/.test(hex)) return `#${hex}`
+  if (/^[0-9a-f]{3}$/.test(hex)) return `#${hex.split('').map(c => c + c).join('')}`
+  return null
+}
+
+/** Whether the image's palette contains the color (from parseColor) */
+export function matchesColor(image: ImageData, color: string): boolean {
+  if (!image.palette) return false
+  const colors = [image.palette.dominant, ...image.palette.accents]
+  if (!color.startsWith('#')) return colors.some(hex => colorFamily(hex) === color)
+  const target = toRgb(color)
+  return colors.some(hex => colorDistance(toRgb(hex), target) <= HEX_MATCH_DISTANCE)
+}
@@ -1,105 +1,803 @@
-import fs from 'fs'
-import path from 'path'
+/**
+ * Gallery repository — the single entry point for reading and writing images.
+ *
+ * API routes call these functions instead of touching database/images.json
+ * directly; the actual store is chosen by lib/storage (STORAGE_BACKEND).
+ * Writes take an AuditContext (who / which route) and are recorded in the
+ * audit trail (lib/audit).
+ */
+import { getStorage, type ConflictMode, type Revision, type StorageTransaction, type UpsertResult } from '@/lib/storage'
+import { isExifField, isSortMode, type ExifSettings, type ImageData, type NewImageData, type SortMode, type Visibility } from '@/lib/images'
+import type { Album, AlbumSummary, NewAlbumData } from '@/lib/albums'
+import type { TagCount } from '@/lib/tags'
+import { uniqueSlug } from '@/lib/slug'
+import { DEFAULT_EXIF_SETTINGS, publicExif } from '@/lib/exif'
+import type { ImageAnalysis } from '@/lib/analysis'
+import type { MirroredMedia } from '@/lib/mirror'
+import type { MediaMetadata } from '@/lib/probe'
+import { compareImages, decodeCursor, encodeCursor, matchesQuery, type ImagePage, type ImageQuery, type PageRequest } from '@/lib/query'
+import { CURRENT_SCHEMA_VERSION, pendingMigrations, type Migration } from '@/lib/migrations'
+import { createSnapshot } from '@/lib/snapshots'
+import { diffRecords, getImageHistory, imageEvent, recordEvents, SYSTEM_CONTEXT, type AuditContext } from '@/lib/audit'
 
-const DB_FILE = path.join(process.cwd(), 'database', 'images.json')
+export type { ImageData, NewImageData } from '@/lib/images'
+export type { Album, AlbumSummary, NewAlbumData } from '@/lib/albums'
 
-interface Database {
-  images: ImageData[]
-  nextId: number
+function stamp(data: NewImageData): Omit<ImageData, 'id'> {
+  const now = new Date().toISOString()
+  return {
+    ...data,
+    visibility: data.visibility || 'public',
+    created_at: data.created_at || now,
+    updated_at: data.updated_at || now,
+  }
+}
+
+export const DEFAULT_SORT_MODE: SortMode = 'pinned'
+
+function isVisible(img: ImageData): boolean {
+  return Boolean(img.image_url) && !img.deleted_at
+}
+
+/** Shown in the grid, search, tag cloud and albums */
+function isListed(img: ImageData): boolean {
+  return isVisible(img) && (img.visibility || 'public') === 'public'
+}
+
+type GalleryIndex = {
+  revision: Revision
+  sortMode: SortMode
+  /** Listed (public) images in sortMode order */
+  sorted: ImageData[]
+  /** Public and unlisted images — what a direct /p/[slug] link may open */
+  bySlug: Map<string, ImageData>
+  byId: Map<number, ImageData>
+}
+
+let galleryIndex: GalleryIndex | null = null
+
+/**
+ * Visible images plus slug/id lookups, rebuilt only when the store's
+ * revision changes. The records are shared between requests — read-only.
+ * Their EXIF is cut down to the admin's public fields, and the signed CDN
+ * URLs of mirrored Locket media are left out.
+ */
+async function getGalleryIndex(): Promise<GalleryIndex> {
+  const storage = getStorage()
+  const revision = await storage.revision()
+  if (galleryIndex?.revision.tag !== revision.tag) {
+    const { publicFields } = await getExifSettings()
+    const images = (await storage.images.list())
+      .map(({ remote, ...img }) => (img.exif ? { ...img, exif: publicExif(img.exif, publicFields) } : img))
+    const sortMode = await getSortMode()
+    const sorted = images.filter(isListed).sort(compareImages(sortMode))
+    galleryIndex = {
+      revision,
+      sortMode,
+      sorted,
+      bySlug: new Map(images
+        .filter(img => isVisible(img) && img.visibility !== 'private')
+        .map(img => [img.slug, img])),
+      byId: new Map(sorted.map(img => [img.id, img])),
+    }
+  }
+  return galleryIndex
+}
+
+/**
+ * Current store revision — public routes derive ETag/Last-Modified from it
+ */
+export async function getGalleryRevision(): Promise<Revision> {
+  return getStorage().revision()
+}
+
+/**
+ * All public images with a usable URL, in the gallery's sort mode. Trashed,
+ * unlisted and private images are left out.
+ */
+export async function getAllImages(query: ImageQuery = {}): Promise<ImageData[]> {
+  const { sorted } = await getGalleryIndex()
+  return sorted.filter(img => matchesQuery(img, query))
 }
 
-function initDB(): Database {
-  const dbDir = path.dirname(DB_FILE)
-  if (!fs.existsSync(dbDir)) {
-    fs.mkdirSync(dbDir, { recursive: true })
+/**
+ * Every image outside the trash whatever its visibility, in the gallery's
+ * sort mode — for the admin UI
+ */
+export async function getManagedImages(): Promise<ImageData[]> {
+  const images = (await getStorage().images.list()).filter(isVisible)
+  return images.sort(compareImages(await getSortMode()))
+}
+
+/**
+ * One page of the filtered gallery. With a cursor the page starts right
+ * after the image it points at, so new uploads don't shift later pages.
+ * Returns null for a cursor that can't be decoded.
+ */
+export async function getImagePage(query: ImageQuery, request: PageRequest): Promise<ImagePage | null> {
+  const { sorted, sortMode } = await getGalleryIndex()
+  const images = sorted.filter(img => matchesQuery(img, query))
+  const { limit } = request
+
+  let start = 0
+  if (request.cursor) {
+    const after = decodeCursor(request.cursor)
+    if (!after) return null
+    const compare = compareImages(sortMode)
+    const index = images.findIndex(img => compare(img, after) > 0)
+    start = index === -1 ? images.length : index
+  } else if (request.page) {
+    start = (request.page - 1) * limit
+  }
+
+  const pageImages = images.slice(start, start + limit)
+  const last = pageImages[pageImages.length - 1]
+  return {
+    images: pageImages,
+    total: images.length,
+    limit,
+    page: request.cursor ? null : request.page || 1,
+    totalPages: Math.max(1, Math.ceil(images.length / limit)),
+    nextCursor: last && start + limit < images.length ? encodeCursor(last) : null,
   }
+}
+
+/**
+ * Tag cloud — every tag on a visible image with its count, most used first
+ */
+export async function getTagCounts(): Promise<TagCount[]> {
+  const counts = new Map<string, number>()
+  for (const img of await getAllImages()) {
+    for (const tag of img.tags || []) counts.set(tag, (counts.get(tag) || 0) + 1)
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
 
-  if (!fs.existsSync(DB_FILE)) {
-    const initialData: Database = { images: [], nextId: 1 }
-    fs.writeFileSync(DB_FILE, JSON.stringify(initialData, null, 2))
-    return initialData
+/**
+ * Gallery order chosen by the admin, stored with the data (meta sortMode)
+ */
+export async function getSortMode(): Promise<SortMode> {
+  const mode = await getStorage().getMeta('sortMode')
+  return isSortMode(mode) ? mode : DEFAULT_SORT_MODE
+}
+
+export async function setSortMode(mode: SortMode, context: AuditContext = SYSTEM_CONTEXT): Promise<void> {
+  const previous = await getSortMode()
+  if (previous === mode) return
+  await getStorage().setMeta('sortMode', mode)
+  await recordEvents(context, [{
+    image_id: null,
+    action: 'settings',
+    changes: { sortMode: { from: previous, to: mode } },
+  }])
+}
+
+/**
+ * EXIF policy for uploads (meta exif) — see ExifSettings in lib/images
+ */
+export async function getExifSettings(): Promise<ExifSettings> {
+  const stored = await getStorage().getMeta<Partial<ExifSettings>>('exif')
+  return {
+    keepLocation: typeof stored?.keepLocation === 'boolean' ? stored.keepLocation : DEFAULT_EXIF_SETTINGS.keepLocation,
+    publicFields: Array.isArray(stored?.publicFields)
+      ? stored.publicFields.filter(isExifField)
+      : DEFAULT_EXIF_SETTINGS.publicFields,
   }
+}
+
+export async function setExifSettings(
+  changes: Partial<ExifSettings>,
+  context: AuditContext = SYSTEM_CONTEXT
+): Promise<ExifSettings> {
+  const previous = await getExifSettings()
+  const next = { ...previous, ...changes }
+  if (JSON.stringify(next) === JSON.stringify(previous)) return previous
+  await getStorage().setMeta('exif', next)
+  await recordEvents(context, [{
+    image_id: null,
+    action: 'settings',
+    changes: { exif: { from: previous, to: next } },
+  }])
+  return next
+}
+
+/**
+ * Manual order: the given images get order_index 1..n in that order and
+ * every other image follows in its current manual order, all in one atomic
+ * write. Returns the unknown ids instead when any id doesn't exist.
+ */
+export async function reorderImages(
+  ids: number[],
+  context: AuditContext = SYSTEM_CONTEXT
+): Promise<{ updatedCount: number } | { unknownIds: number[] }> {
+  const result = await getStorage().transaction((tx): { updatedCount: number } | { unknownIds: number[] } => {
+    const images = tx.images.list()
+    const known = new Set(images.map(img => img.id))
+    const unknownIds = ids.filter(id => !known.has(id))
+    if (unknownIds.length > 0) return { unknownIds }
+
+    const listed = new Set(ids)
+    const byId = new Map(images.map(img => [img.id, img]))
+    const rest = images.filter(img => !listed.has(img.id)).sort(compareImages('manual'))
+    const order = [...ids.map(id => byId.get(id) as ImageData), ...rest]
 
-  const data = fs.readFileSync(DB_FILE, 'utf-8')
-  return JSON.parse(data)
+    const now = new Date().toISOString()
+    const patches = order
+      .map((img, index) => ({ img, order_index: index + 1 }))
+      .filter(({ img, order_index }) => img.order_index !== order_index)
+      .map(({ img, order_index }) => ({ id: img.id, changes: { order_index, updated_at: now } }))
+
+    if (patches.length > 0) tx.images.update(patches)
+    return { updatedCount: patches.length }
+  })
+
+  if ('updatedCount' in result && result.updatedCount > 0) {
+    await recordEvents(context, [{
+      image_id: null,
+      action: 'reorder',
+      changes: {},
+      details: { ids, updatedCount: result.updatedCount },
+    }])
+  }
+  return result
 }
 
-function saveDB(db: Database): void {
-  fs.writeFileSync(DB_FILE, JSON.stringify(db, null, 2))
+export async function getImageById(id: number): Promise<ImageData | null> {
+  return getStorage().images.get(id)
 }
 
-export interface ImageData {
-  id: number
-  slug: string
-  title: string
-  description?: string
-  image_url: string
-  thumbnail_url?: string
-  width: number
-  height: number
-  file_size?: number
-  order_index: number
-  created_at: string
-  updated_at: string
+/**
+ * Public lookup — unlisted images are found, trashed and private ones are
+ * not. A former slug finds the renamed image (its `slug` tells the new one).
+ */
+export async function getImageBySlug(slug: string): Promise<ImageData | null> {
+  const { bySlug } = await getGalleryIndex()
+  const image = bySlug.get(slug)
+  if (image) return image
+  const redirect = await getStorage().redirects.findBy('from_slug', slug)
+  return redirect ? bySlug.get(redirect.to_slug) || null : null
 }
 
-export function getAllImages(): ImageData[] {
-  const db = initDB()
-  return db.images.sort((a, b) => b.order_index - a.order_index || b.id - a.id)
+/** Former slug → current slug, for every renamed image */
+async function getSlugRedirects(): Promise<Map<string, string>> {
+  return new Map((await getStorage().redirects.list()).map(r => [r.from_slug, r.to_slug]))
 }
 
-export function getImageBySlug(slug: string): ImageData | null {
-  const db = initDB()
-  return db.images.find(img => img.slug === slug) || null
+/**
+ * A free image slug based on `base` (base-2, base-3, ... when taken). Former
+ * slugs count as taken, so their redirects keep pointing at the renamed image.
+ * Picked inside the transaction that stores it, so two writers can't both take it.
+ */
+function availableImageSlug(tx: StorageTransaction, base: string): string {
+  const taken = new Set([
+    ...tx.images.list().map(img => img.slug),
+    ...tx.redirects.list().map(r => r.from_slug),
+  ])
+  return uniqueSlug(base, slug => taken.has(slug))
 }
 
-export function getImageById(id: number): ImageData | null {
-  const db = initDB()
-  return db.images.find(img => img.id === id) || null
+/**
+ * Redirects for renaming an image to `slug`, inside the transaction that
+ * renames it: the old slug becomes a redirect and redirects to it are moved
+ * along. Returns false, changing nothing, when another image owns (or used
+ * to own) the slug.
+ */
+function redirectSlug(tx: StorageTransaction, image: ImageData, slug: string, now: string): boolean {
+  const owner = tx.images.findBy('slug', slug)
+  const reclaimed = tx.redirects.findBy('from_slug', slug)
+  if ((owner && owner.id !== image.id) || (reclaimed && reclaimed.to_slug !== image.slug)) return false
+
+  // Going back to a former slug drops its redirect
+  if (reclaimed) tx.redirects.remove([reclaimed.id])
+  const chained = tx.redirects.list().filter(r => r.to_slug === image.slug)
+  if (chained.length > 0) {
+    tx.redirects.update(chained.map(r => ({ id: r.id, changes: { to_slug: slug } })))
+  }
+  tx.redirects.insert([{ from_slug: image.slug, to_slug: slug, created_at: now }])
+  return true
 }
 
-export function createImage(data: Omit<ImageData, 'id' | 'created_at' | 'updated_at'>): ImageData {
-  const db = initDB()
-  
+/**
+ * Give an image a new slug. The old one becomes a redirect, and redirects
+ * to the old one are moved along, so every earlier link still resolves.
+ * Returns { taken } when another image owns (or used to own) the slug.
+ */
+export async function renameImageSlug(
+  id: number,
+  slug: string,
+  context: AuditContext = SYSTEM_CONTEXT
+): Promise<{ image: ImageData } | { taken: true } | null> {
   const now = new Date().toISOString()
-  const newImage: ImageData = {
-    ...data,
-    id: db.nextId++,
-    created_at: now,
-    updated_at: now,
+  const result = await getStorage().transaction(tx => {
+    const image = tx.images.get(id)
+    if (!image) return null
+    if (image.slug === slug) return { before: image, image }
+    if (!redirectSlug(tx, image, slug, now)) return { taken: true as const }
+    const [renamed] = tx.images.update([{ id, changes: { slug, updated_at: now } }])
+    return { before: image, image: renamed as ImageData }
+  })
+  if (!result || 'taken' in result) return result
+
+  if (result.image !== result.before) {
+    await recordEvents(context, [imageEvent('update', result.before, result.image)])
+  }
+  return { image: result.image }
+}
+
+/** New images get a unique slug — see availableImageSlug */
+export async function createImage(data: NewImageData, context: AuditContext = SYSTEM_CONTEXT): Promise<ImageData> {
+  const created = await getStorage().transaction(tx =>
+    tx.images.insert([stamp({ ...data, slug: availableImageSlug(tx, data.slug) })])[0]
+  )
+  await recordEvents(context, [imageEvent('create', null, created)])
+  return created
+}
+
+/**
+ * Patch an image. Undefined fields are ignored rather than cleared.
+ */
+export async function updateImage(
+  id: number,
+  data: Partial<ImageData>,
+  context: AuditContext = SYSTEM_CONTEXT
+): Promise<ImageData | null> {
+  const changes: Partial<ImageData> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined && key !== 'id') {
+      (changes as Record<string, unknown>)[key] = value
+    }
   }
 
-  db.images.push(newImage)
-  saveDB(db)
+  const storage = getStorage()
+  const before = await storage.images.get(id)
+  const [updated] = await storage.images.update([{
+    id,
+    changes: { ...changes, updated_at: new Date().toISOString() },
+  }])
+
+  if (before && updated) {
+    const event = imageEvent('update', before, updated)
+    if (Object.keys(event.changes).length > 0) await recordEvents(context, [event])
+  }
+  return updated
+}
+
+/**
+ * Add and/or remove tags on many images in one atomic write. Returns the
+ * updated images; unknown ids are skipped.
+ */
+export async function updateImageTags(
+  ids: number[],
+  { add = [], remove = [] }: { add?: string[]; remove?: string[] },
+  context: AuditContext = SYSTEM_CONTEXT
+): Promise<ImageData[]> {
+  const now = new Date().toISOString()
+  const { targets, updated } = await getStorage().transaction(tx => {
+    const targets = tx.images.list().filter(img => ids.includes(img.id))
+    const updated = tx.images.update(targets.map(img => {
+      const tags = Array.from(new Set([...(img.tags || []), ...add])).filter(tag => !remove.includes(tag))
+      return { id: img.id, changes: { tags, updated_at: now } }
+    }))
+    return { targets, updated }
+  })
+
+  await recordEvents(context, targets
+    .map((img, i) => imageEvent('update', img, updated[i] || img))
+    .filter(event => Object.keys(event.changes).length > 0))
+  return updated.filter((img): img is ImageData => img !== null)
+}
+
+/**
+ * Apply the same field changes to many images in one atomic write. Returns
+ * the images that changed; unknown ids and images that already have those
+ * values are skipped.
+ */
+export async function updateImages(
+  ids: number[],
+  changes: Partial<Omit<ImageData, 'id'>>,
+  context: AuditContext = SYSTEM_CONTEXT
+): Promise<ImageData[]> {
+  const now = new Date().toISOString()
+  const { targets, updated } = await getStorage().transaction(tx => {
+    const targets = tx.images.list()
+      .filter(img => ids.includes(img.id) && Object.keys(diffRecords(img, { ...img, ...changes })).length > 0)
+    const updated = targets.length > 0
+      ? tx.images.update(targets.map(img => ({ id: img.id, changes: { ...changes, updated_at: now } })))
+      : []
+    return { targets, updated }
+  })
+
+  await recordEvents(context, targets.map((img, i) => imageEvent('update', img, updated[i] || img)))
+  return updated.filter((img): img is ImageData => img !== null)
+}
+
+/**
+ * Store analysis results — placeholder, palette, perceptual hash (lib/analysis)
+ * — by image id. They are derived from the pixels, so no audit event is recorded.
+ */
+export async function setImageAnalysis(results: Map<number, ImageAnalysis>): Promise<void> {
+  if (results.size === 0) return
+  await getStorage().images.update(Array.from(results, ([id, changes]) => ({ id, changes })))
+}
+
+/**
+ * Point images at their local copies (lib/mirror), by image id. The media
+ * is the same, only where it is served from changes — no audit event.
+ */
+export async function setMirroredMedia(results: Map<number, MirroredMedia>): Promise<void> {
+  if (results.size === 0) return
+  await getStorage().images.update(Array.from(results, ([id, changes]) => ({ id, changes })))
+}
+
+/**
+ * Store probed dimensions, sizes and MIME types (lib/probe) by image id.
+ * Measured, not edited — no audit event.
+ */
+export async function setImageMetadata(results: Map<number, MediaMetadata>): Promise<void> {
+  if (results.size === 0) return
+  await getStorage().images.update(Array.from(results, ([id, changes]) => ({ id, changes })))
+}
 
-  return newImage
+/** updateImages for visibility only (public / unlisted / private) */
+export async function setImageVisibility(
+  ids: number[],
+  visibility: Visibility,
+  context: AuditContext = SYSTEM_CONTEXT
+): Promise<ImageData[]> {
+  return updateImages(ids, { visibility }, context)
 }
 
-export function updateImage(id: number, data: Partial<ImageData>): ImageData | null {
-  const db = initDB()
-  
-  const index = db.images.findIndex(img => img.id === id)
+/** Remove the record for good — admin deletes go through lib/trash instead */
+export async function deleteImage(id: number, context: AuditContext = SYSTEM_CONTEXT): Promise<boolean> {
+  const storage = getStorage()
+  const image = await storage.images.get(id)
+  const removed = (await storage.images.remove([id])) > 0
+  if (image && removed) {
+    await recordEvents(context, [{ image_id: id, slug: image.slug, action: 'purge', changes: {} }])
+  }
+  return removed
+}
+
+/**
+ * Insert or update many images keyed by slug in one atomic write.
+ * With onConflict 'skip', images whose slug already exists are left as-is.
+ * Slugs are followed through redirects, so a renamed image still matches.
+ * Recorded as 'sync' events (the Locket sync is the caller).
+ */
+export async function upsertImages(
+  data: NewImageData[],
+  onConflict: ConflictMode = 'update',
+  context: AuditContext = SYSTEM_CONTEXT
+): Promise<UpsertResult<ImageData>[]> {
+  const storage = getStorage()
+  const before = onConflict === 'update'
+    ? new Map((await storage.images.list()).map(img => [img.slug, img]))
+    : new Map<string, ImageData>()
+
+  const redirects = await getSlugRedirects()
+  const records = data.map(img => stamp({ ...img, slug: redirects.get(img.slug) || img.slug }))
+  const results = await storage.images.upsert(records, 'slug', onConflict)
+
+  await recordEvents(context, results
+    .filter(r => r.created || onConflict === 'update')
+    .map(r => imageEvent('sync', r.created ? null : before.get(r.record.slug) || null, r.record))
+    .filter(event => Object.keys(event.changes).length > 0))
+  return results
+}
+
+/** The local media fields of a mirrored image, nothing for one still on the CDN */
+function mirroredMedia({ image_url, thumbnail_url, video_url, variants, file_size, remote }: Partial<ImageData>): Partial<MirroredMedia> {
+  return remote ? { image_url, thumbnail_url, video_url, variants, file_size, remote } : {}
+}
+
+/** The probed metadata of an image, nothing for one never probed */
+function probedMetadata({ width, height, file_size, mime_type, video }: Partial<ImageData>): Partial<MediaMetadata> {
+  return mime_type ? { width, height, file_size, mime_type, video } : {}
+}
+
+/**
+ * Replace the whole gallery with the given images (used by Locket reset).
+ * A snapshot of the previous gallery is taken first. Images that come back
+ * keep their custom slug, visibility, pin, manual position, title, caption,
+ * description, tags and trash state, so a reset never breaks links,
+ * publishes a hidden or deleted image, scrambles the order or loses edits.
+ */
+export async function replaceAllImages(data: NewImageData[], context: AuditContext = SYSTEM_CONTEXT): Promise<ImageData[]> {
+  const snapshot = await createSnapshot('reset')
+  const storage = getStorage()
+  const previous = await storage.images.list()
+  const redirects = await getSlugRedirects()
+  // Analysis results, local media copies and probed metadata aren't curated,
+  // but it's the same moment — no need to analyze, download or probe it again
+  const curatedBySlug = new Map(previous.map(({
+    slug, visibility, pinned, order_index, title, caption, description, tags, deleted_at,
+    placeholder, palette, phash, ...media
+  }) => [slug, {
+    slug, visibility, pinned, order_index, title, caption, description, tags, deleted_at,
+    placeholder, palette, phash, ...probedMetadata(media), ...mirroredMedia(media),
+  }]))
+  const images = await storage.images.replaceAll(data.map(img =>
+    stamp({ ...img, ...curatedBySlug.get(redirects.get(img.slug) || img.slug) })
+  ))
+  await remapAlbumImages(previous, images)
+  await recordEvents(context, [{
+    image_id: null,
+    action: 'reset',
+    changes: {},
+    details: { snapshot: snapshot.id, removedCount: snapshot.imageCount, importedCount: images.length },
+  }])
+  return images
+}
+
+/**
+ * Roll an image back to how it was right after the given audit event, by
+ * undoing the diffs of every newer event. The revert is itself recorded,
+ * so it can be reverted too. A former slug comes back like a rename (see
+ * renameImageSlug); when another image has taken it since, the current slug
+ * stays. Returns null if the image or event is unknown.
+ */
+export async function revertImage(
+  id: number,
+  eventId: number,
+  context: AuditContext = SYSTEM_CONTEXT
+): Promise<ImageData | null> {
+  const history = await getImageHistory(id)
+  const index = history.findIndex(event => event.id === eventId)
   if (index === -1) return null
 
-  db.images[index] = {
-    ...db.images[index],
-    ...data,
-    id, // Prevent ID change
-    updated_at: new Date().toISOString(),
+  const now = new Date().toISOString()
+  const result = await getStorage().transaction(tx => {
+    const image = tx.images.get(id)
+    if (!image) return null
+
+    const target: Record<string, unknown> = { ...image }
+    for (const event of history.slice(0, index)) {
+      for (const [field, change] of Object.entries(event.changes)) {
+        target[field] = change.from
+      }
+    }
+
+    const slug = target.slug
+    if (typeof slug !== 'string' || !slug || (slug !== image.slug && !redirectSlug(tx, image, slug, now))) {
+      target.slug = image.slug
+    }
+
+    const changes = diffRecords(image, target)
+    if (Object.keys(changes).length === 0) return { image, reverted: image }
+
+    const patch = Object.fromEntries(Object.entries(changes).map(([field, change]) => [field, change.to]))
+    const [reverted] = tx.images.update([{ id, changes: { ...patch, updated_at: now } }])
+    return { image, reverted: reverted as ImageData }
+  })
+  if (!result) return null
+
+  if (result.reverted !== result.image) {
+    await recordEvents(context, [imageEvent('revert', result.image, result.reverted, { revision: eventId })])
+  }
+  return result.reverted
+}
+
+/**
+ * A reset renumbers every image; carry album membership over by slug.
+ * Images that didn't come back are dropped from their albums.
+ */
+async function remapAlbumImages(previous: ImageData[], current: ImageData[]): Promise<void> {
+  const storage = getStorage()
+  const albums = await storage.albums.list()
+  if (albums.length === 0) return
+
+  const slugById = new Map(previous.map(img => [img.id, img.slug]))
+  const idBySlug = new Map(current.map(img => [img.slug, img.id]))
+  const remap = (id: number) => idBySlug.get(slugById.get(id) || '')
+
+  await storage.albums.update(albums.map(album => ({
+    id: album.id,
+    changes: {
+      image_ids: album.image_ids.map(remap).filter((id): id is number => id !== undefined),
+      cover_image_id: album.cover_image_id ? remap(album.cover_image_id) ?? null : null,
+    },
+  })))
+}
+
+async function visibleImagesById(): Promise<Map<number, ImageData>> {
+  return (await getGalleryIndex()).byId
+}
+
+function albumImages(album: Album, byId: Map<number, ImageData>): ImageData[] {
+  return album.image_ids
+    .map(id => byId.get(id))
+    .filter((img): img is ImageData => img !== undefined)
+}
+
+function summarize(album: Album, byId: Map<number, ImageData>): AlbumSummary {
+  const images = albumImages(album, byId)
+  const cover = images.find(img => img.id === album.cover_image_id) || images[0] || null
+  return { ...album, cover, image_count: images.length }
+}
+
+function byAlbumOrder(a: Album, b: Album): number {
+  return a.order_index - b.order_index || b.created_at.localeCompare(a.created_at)
+}
+
+/**
+ * Every album with its cover and image count, by order_index then newest
+ */
+export async function getAlbums(): Promise<AlbumSummary[]> {
+  const albums = await getStorage().albums.list()
+  const byId = await visibleImagesById()
+  return albums.sort(byAlbumOrder).map(album => summarize(album, byId))
+}
+
+/**
+ * An album as visitors see it: ids of private, unlisted and trashed images
+ * are left out of image_ids and cover_image_id
+ */
+function publicAlbum<A extends Album>(album: A, byId: Map<number, ImageData>): A {
+  const cover = album.cover_image_id
+  return {
+    ...album,
+    image_ids: album.image_ids.filter(id => byId.has(id)),
+    cover_image_id: cover && byId.has(cover) ? cover : null,
   }
+}
 
-  saveDB(db)
-  return db.images[index]
+/** getAlbums for the public API */
+export async function getPublicAlbums(): Promise<AlbumSummary[]> {
+  const byId = await visibleImagesById()
+  return (await getAlbums()).map(album => publicAlbum(album, byId))
 }
 
-export function deleteImage(id: number): boolean {
-  const db = initDB()
-  
-  const index = db.images.findIndex(img => img.id === id)
-  if (index === -1) return false
+/** getAlbumWithImages for the public API */
+export async function getPublicAlbumWithImages(album: Album): Promise<AlbumSummary & { images: ImageData[] }> {
+  return publicAlbum(await getAlbumWithImages(album), await visibleImagesById())
+}
 
-  db.images.splice(index, 1)
-  saveDB(db)
+export async function getAlbumById(id: number): Promise<Album | null> {
+  return getStorage().albums.get(id)
+}
 
-  return true
+export async function getAlbumBySlug(slug: string): Promise<Album | null> {
+  return getStorage().albums.findBy('slug', slug)
+}
+
+/**
+ * An album's summary plus its images in album order; missing and trashed
+ * images are skipped
+ */
+export async function getAlbumWithImages(album: Album): Promise<AlbumSummary & { images: ImageData[] }> {
+  const byId = await visibleImagesById()
+  return { ...summarize(album, byId), images: albumImages(album, byId) }
+}
+
+export async function createAlbum(data: NewAlbumData): Promise<Album> {
+  const now = new Date().toISOString()
+  const [created] = await getStorage().albums.insert([{ ...data, created_at: now, updated_at: now }])
+  return created
+}
+
+/**
+ * Patch an album. Undefined fields are ignored rather than cleared.
+ */
+export async function updateAlbum(id: number, data: Partial<Album>): Promise<Album | null> {
+  const changes: Partial<Album> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined && key !== 'id' && key !== 'created_at') {
+      (changes as Record<string, unknown>)[key] = value
+    }
+  }
+
+  const [updated] = await getStorage().albums.update([{
+    id,
+    changes: { ...changes, updated_at: new Date().toISOString() },
+  }])
+  return updated
+}
+
+/**
+ * Put images into one album and take them out of every other album, in one
+ * atomic write. Images already in the album keep their place, the others are
+ * appended in the given order. Returns the ids whose membership changed, or
+ * null for an unknown album.
+ */
+export async function moveImagesToAlbum(ids: number[], albumId: number): Promise<number[] | null> {
+  const storage = getStorage()
+  const albums = await storage.albums.list()
+  const target = albums.find(album => album.id === albumId)
+  if (!target) return null
+
+  const moved = new Set(ids.filter(id => !target.image_ids.includes(id)))
+  const now = new Date().toISOString()
+  const patches: Array<{ id: number; changes: Partial<Album> }> = []
+
+  for (const album of albums) {
+    const image_ids = album.id === albumId
+      ? [...album.image_ids, ...ids.filter(id => moved.has(id))]
+      : album.image_ids.filter(id => !ids.includes(id))
+    if (image_ids.length === album.image_ids.length) continue
+
+    if (album.id !== albumId) {
+      album.image_ids.filter(id => ids.includes(id)).forEach(id => moved.add(id))
+    }
+    const cover_image_id = album.cover_image_id && image_ids.includes(album.cover_image_id) ? album.cover_image_id : null
+    patches.push({ id: album.id, changes: { image_ids, cover_image_id, updated_at: now } })
+  }
+
+  if (patches.length > 0) await storage.albums.update(patches)
+  return ids.filter(id => moved.has(id))
+}
+
+/**
+ * Put `toId` in place of the given images in every album that holds any of
+ * them (covers included), in one atomic write. An album that already holds
+ * `toId` keeps it at its first position. Returns the ids of the changed albums.
+ */
+export async function replaceInAlbums(fromIds: number[], toId: number): Promise<number[]> {
+  const storage = getStorage()
+  const now = new Date().toISOString()
+  const patches: Array<{ id: number; changes: Partial<Album> }> = []
+
+  for (const album of await storage.albums.list()) {
+    if (!album.image_ids.some(id => fromIds.includes(id))) continue
+    const image_ids = Array.from(new Set(album.image_ids.map(id => fromIds.includes(id) ? toId : id)))
+    const cover_image_id = album.cover_image_id && fromIds.includes(album.cover_image_id) ? toId : album.cover_image_id
+    patches.push({ id: album.id, changes: { image_ids, cover_image_id, updated_at: now } })
+  }
+
+  if (patches.length > 0) await storage.albums.update(patches)
+  return patches.map(patch => patch.id)
+}
+
+/** Deletes the album only; its images stay in the gallery */
+export async function deleteAlbum(id: number): Promise<boolean> {
+  return (await getStorage().albums.remove([id])) > 0
+}
+
+export type MigrationStatus = {
+  backend: string
+  schemaVersion: number
+  latestVersion: number
+  pending: Array<Pick<Migration, 'version' | 'name' | 'description'>>
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const storage = getStorage()
+  const schemaVersion = Number(await storage.getMeta('schemaVersion')) || 0
+  return {
+    backend: storage.name,
+    schemaVersion,
+    latestVersion: CURRENT_SCHEMA_VERSION,
+    pending: pendingMigrations(schemaVersion).map(({ version, name, description }) => ({ version, name, description })),
+  }
+}
+
+/**
+ * Persist the pending migrations: records are already upgraded in memory on
+ * read, so rewriting every record stores the current shape. Then bump the
+ * stored schemaVersion. Safe to re-run if interrupted (migrations are idempotent).
+ */
+export async function runMigrations(context: AuditContext = SYSTEM_CONTEXT): Promise<MigrationStatus & { applied: MigrationStatus['pending']; migratedCount: number }> {
+  const before = await getMigrationStatus()
+  if (before.pending.length === 0) return { ...before, applied: [], migratedCount: 0 }
+
+  await createSnapshot('migrate')
+
+  const storage = getStorage()
+  const images = await storage.images.list()
+  await storage.images.update(images.map(image => ({ id: image.id, changes: image })))
+  await storage.setMeta('schemaVersion', CURRENT_SCHEMA_VERSION)
+  await recordEvents(context, [{
+    image_id: null,
+    action: 'migrate',
+    changes: {},
+    details: { from: before.schemaVersion, to: CURRENT_SCHEMA_VERSION, migratedCount: images.length },
+  }])
+
+  return {
+    ...before,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    pending: [],
+    applied: before.pending,
+    migratedCount: images.length,
+  }
 }
@@ -0,0 +1,66 @@
+/**
+ * Responsive derivatives for uploaded images
+ *
+ * Each upload is resized to every VARIANT_WIDTHS step narrower than the
+ * original (plus the original width when it falls between steps) and
+ * encoded as AVIF, WebP and JPEG next to the original in public/uploads.
+ * The manifest is stored on the image record as `variants`.
+ */
+import fs from 'fs'
+import path from 'path'
+import sharp from 'sharp'
+import { VARIANT_FORMATS, type ImageVariant, type VariantFormat } from '@/lib/images'
+
+export const VARIANT_WIDTHS = [320, 640, 1080, 1600, 2048]
+
+const ENCODERS: Record<VariantFormat, (pipeline: sharp.Sharp) => sharp.Sharp> = {
+  avif: pipeline => pipeline.avif({ quality: 50, effort: 2 }),
+  webp: pipeline => pipeline.webp({ quality: 75 }),
+  jpeg: pipeline => pipeline.jpeg({ quality: 80, mozjpeg: true }),
+}
+
+const EXTENSIONS: Record<VariantFormat, string> = { avif: 'avif', webp: 'webp', jpeg: 'jpg' }
+
+/** Widths to generate for an original of the given (display) width */
+export function variantWidths(originalWidth: number): number[] {
+  const max = VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]
+  const widths = VARIANT_WIDTHS.filter(w => w < originalWidth)
+  if (originalWidth > 0 && originalWidth < max) widths.push(originalWidth)
+  return widths
+}
+
+/**
+ * Write the derivatives of `sourcePath` into `dir` as <baseName>-<width>w.<ext>.
+ * Files already written are removed again if any encode fails.
+ */
+export async function createVariants(sourcePath: string, baseName: string, dir: string): Promise<ImageVariant[]> {
+  const metadata = await sharp(sourcePath).metadata()
+  // EXIF orientations 5-8 are rotated a quarter turn, so width and height swap
+  const rotated = (metadata.orientation || 1) >= 5
+  const displayWidth = (rotated ? metadata.height : metadata.width) || 0
+
+  const variants: ImageVariant[] = []
+  try {
+    for (const width of variantWidths(displayWidth)) {
+      for (const format of VARIANT_FORMATS) {
+        const filename = `${baseName}-${width}w.${EXTENSIONS[format]}`
+        const pipeline = sharp(sourcePath).rotate().resize({ width, withoutEnlargement: true })
+        const info = await ENCODERS[format](pipeline).toFile(path.join(dir, filename))
+        variants.push({
+          url: `/uploads/${filename}`,
+          format,
+          width: info.width,
+          height: info.height,
+          size: info.size,
+        })
+      }
+    }
+  } catch (error) {
+    for (const variant of variants) {
+      fs.rmSync(path.join(dir, path.basename(variant.url)), { force: true })
+    }
+    throw error
+  }
+
+  return variants
+}
@@ -0,0 +1,130 @@
+/**
+ * Near-duplicate detection by perceptual hash (lib/phash)
+ *
+ * Two images whose hashes differ in at most DUPLICATE_THRESHOLD bits
+ * (default 6, of 64) count as copies of the same photo. New uploads are
+ * checked against the gallery and either flagged or rejected (see
+ * /api/admin/images); a sync reports how many new moments look like copies.
+ * The report groups every set of look-alikes outside the trash so they can
+ * be merged into one image or the extras deleted.
+ */
+import type { AuditContext } from '@/lib/audit'
+import { getImageById, getManagedImages, replaceInAlbums, updateImage } from '@/lib/db'
+import type { ImageData } from '@/lib/images'
+import { hammingDistance } from '@/lib/phash'
+import { createSnapshot } from '@/lib/snapshots'
+import { normalizeTags } from '@/lib/tags'
+import { isTrashed, trashImages } from '@/lib/trash'
+
+export type DuplicateMatch = {
+  image: ImageData
+  distance: number  // Differing bits, 0 = identical hash
+}
+
+/** What upload and sync responses say about a match */
+export type DuplicateSummary = Pick<ImageData, 'id' | 'slug' | 'title' | 'thumbnail_url'> & { distance: number }
+
+export type DuplicateGroup = {
+  distance: number  // Largest distance between linked images in the group
+  images: ImageData[]
+}
+
+export type DuplicateResolution = 'merge' | 'delete'
+
+export type DuplicateResolveResult = {
+  image: ImageData
+  trashedIds: number[]
+  snapshot: string
+}
+
+export function duplicateThreshold(): number {
+  const threshold = Number(process.env.DUPLICATE_THRESHOLD ?? 6)
+  return Number.isInteger(threshold) && threshold >= 0 && threshold <= 64 ? threshold : 6
+}
+
+/**
+ * Images within the threshold of a hash, closest first
+ */
+export function findDuplicates(phash: string, images: ImageData[], excludeId?: number): DuplicateMatch[] {
+  const threshold = duplicateThreshold()
+  return images
+    .filter(img => img.phash && img.id !== excludeId)
+    .map(image => ({ image, distance: hammingDistance(phash, image.phash as string) }))
+    .filter(match => match.distance <= threshold)
+    .sort((a, b) => a.distance - b.distance)
+}
+
+export function summarizeMatch({ image, distance }: DuplicateMatch): DuplicateSummary {
+  return { id: image.id, slug: image.slug, title: image.title, thumbnail_url: image.thumbnail_url, distance }
+}
+
+/**
+ * Groups of look-alike images outside the trash. An image close to any
+ * member joins the group, so a group can chain a little past the threshold.
+ * Groups keep the oldest image first and are listed largest first.
+ */
+export async function getDuplicateGroups(): Promise<DuplicateGroup[]> {
+  const images = (await getManagedImages())
+    .filter(img => img.phash)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const threshold = duplicateThreshold()
+
+  // Union-find over every pair within the threshold
+  const parent = images.map((_, i) => i)
+  const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]))
+  const widest = new Map<number, number>()
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      const distance = hammingDistance(images[i].phash as string, images[j].phash as string)
+      if (distance > threshold) continue
+      const [a, b] = [root(i), root(j)]
+      const max = Math.max(distance, widest.get(a) ?? 0, widest.get(b) ?? 0)
+      parent[b] = a
+      widest.set(a, max)
+    }
+  }
+
+  const groups = new Map<number, ImageData[]>()
+  images.forEach((image, i) => groups.set(root(i), [...(groups.get(root(i)) || []), image]))
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([id, members]) => ({ distance: widest.get(id) ?? 0, images: members }))
+    .sort((a, b) => b.images.length - a.images.length || a.distance - b.distance)
+}
+
+/**
+ * Keep one image and move the others to the trash, after a snapshot.
+ * 'merge' first folds the others into the kept image: tags are combined,
+ * an empty caption or description is taken from them, it is pinned if any
+ * of them was, and it takes their place in albums. 'delete' only trashes.
+ * Returns the unknown or trashed ids instead when any image can't be used.
+ */
+export async function resolveDuplicates(
+  keepId: number,
+  removeIds: number[],
+  resolution: DuplicateResolution,
+  context: AuditContext
+): Promise<DuplicateResolveResult | { unknownIds: number[] }> {
+  const ids = [keepId, ...removeIds.filter(id => id !== keepId)]
+  const images = await Promise.all(ids.map(id => getImageById(id)))
+  const unknownIds = ids.filter((_, i) => !images[i] || isTrashed(images[i] as ImageData))
+  if (unknownIds.length > 0) return { unknownIds }
+
+  const [keeper, ...others] = images as ImageData[]
+  const snapshot = await createSnapshot(`duplicates-${resolution}`)
+
+  let image = keeper
+  if (resolution === 'merge') {
+    const tags = normalizeTags([...(keeper.tags || []), ...others.flatMap(img => img.tags || [])])
+    image = await updateImage(keeper.id, {
+      tags: tags.length > 0 ? tags : undefined,
+      caption: keeper.caption || others.find(img => img.caption)?.caption,
+      description: keeper.description || others.find(img => img.description)?.description,
+      pinned: keeper.pinned || others.some(img => img.pinned) || undefined,
+    }, context) || keeper
+    await replaceInAlbums(others.map(img => img.id), keeper.id)
+  }
+
+  const trashedIds = await trashImages(others.map(img => img.id), context)
+  return { image, trashedIds, snapshot: snapshot.id }
+}
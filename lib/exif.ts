@@ -0,0 +1,138 @@
+/**
+ * EXIF for uploads — read it into ImageExif, then strip it from the file
+ *
+ * Uploads are served as-is from /uploads/, so a camera photo would publish
+ * its GPS position. stripMetadata() rewrites the original rotated upright
+ * with no EXIF/XMP/IPTC; what is worth keeping has been copied into the
+ * record by readExif() first (location only when the admin allows it).
+ */
+import fs from 'fs'
+import exifReader from 'exif-reader'
+import sharp from 'sharp'
+import type { ExifField, ExifSettings, ImageExif } from '@/lib/images'
+
+export const DEFAULT_EXIF_SETTINGS: ExifSettings = {
+  keepLocation: false,
+  publicFields: ['taken_at', 'camera', 'lens', 'exposure'],
+}
+
+/**
+ * exif-reader reads the camera's wall-clock time as if it were UTC. With an
+ * OffsetTimeOriginal the real instant is known; without one the time is
+ * taken to be in the server's time zone.
+ */
+function captureTime(date: unknown, offset: unknown): string | undefined {
+  if (!(date instanceof Date) || isNaN(date.getTime())) return undefined
+
+  const match = typeof offset === 'string' ? offset.match(/^([+-])(\d{2}):(\d{2})$/) : null
+  if (match) {
+    const minutes = (Number(match[2]) * 60 + Number(match[3])) * (match[1] === '-' ? -1 : 1)
+    return new Date(date.getTime() - minutes * 60_000).toISOString()
+  }
+
+  return new Date(
+    date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()
+  ).toISOString()
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.replace(/\0/g, '').trim() : undefined
+}
+
+function round(value: unknown, digits: number): number | undefined {
+  const n = Array.isArray(value) ? Number(value[0]) : Number(value)
+  return Number.isFinite(n) && n > 0 ? Number(n.toFixed(digits)) : undefined
+}
+
+function shutterSpeed(seconds: unknown): string | undefined {
+  const t = Number(seconds)
+  if (!Number.isFinite(t) || t <= 0) return undefined
+  return t >= 1 ? `${Number(t.toFixed(1))}` : `1/${Math.round(1 / t)}`
+}
+
+/** [degrees, minutes, seconds] + N/S/E/W → signed decimal degrees */
+function coordinate(dms: unknown, ref: unknown): number | undefined {
+  if (!Array.isArray(dms) || dms.length < 3 || !dms.every(Number.isFinite)) return undefined
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600
+  return Number((ref === 'S' || ref === 'W' ? -degrees : degrees).toFixed(6))
+}
+
+/** Drop undefined values; undefined when nothing is left */
+function compact<T extends object>(value: T): T | undefined {
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+  return entries.length > 0 ? Object.fromEntries(entries) as T : undefined
+}
+
+/**
+ * Structured metadata from sharp's metadata(); undefined for files without
+ * EXIF. Unreadable EXIF is logged and ignored — it never fails an upload.
+ */
+export function readExif(metadata: sharp.Metadata, settings: ExifSettings): ImageExif | undefined {
+  if (!metadata.exif) return undefined
+
+  let tags: ReturnType<typeof exifReader>
+  try {
+    tags = exifReader(metadata.exif)
+  } catch (error) {
+    console.error('EXIF parse error:', error)
+    return undefined
+  }
+
+  const image = tags.Image || {}
+  const photo = tags.Photo || {}
+  const gps = tags.GPSInfo || {}
+
+  const make = text(image.Make)
+  const model = text(image.Model)
+  // Many cameras repeat the make in the model ("Canon" + "Canon EOS R6")
+  const camera = model && make && !model.toLowerCase().startsWith(make.toLowerCase())
+    ? `${make} ${model}`
+    : model || make
+
+  const latitude = coordinate(gps.GPSLatitude, gps.GPSLatitudeRef)
+  const longitude = coordinate(gps.GPSLongitude, gps.GPSLongitudeRef)
+  const altitude = round(gps.GPSAltitude, 1)
+  const location = settings.keepLocation && latitude !== undefined && longitude !== undefined
+    ? compact({ latitude, longitude, altitude: altitude && gps.GPSAltitudeRef === 1 ? -altitude : altitude })
+    : undefined
+
+  return compact<ImageExif>({
+    taken_at: captureTime(photo.DateTimeOriginal, photo.OffsetTimeOriginal)
+      || captureTime(image.DateTime, photo.OffsetTime),
+    camera,
+    lens: text(photo.LensModel),
+    exposure: compact({
+      shutter: shutterSpeed(photo.ExposureTime),
+      aperture: round(photo.FNumber, 1),
+      iso: round(photo.ISOSpeedRatings, 0),
+      focal_length: round(photo.FocalLength, 1),
+    }),
+    orientation: metadata.orientation,
+    location: location as ImageExif['location'],
+  })
+}
+
+/**
+ * Only the fields the admin has made public
+ */
+export function publicExif(exif: ImageExif, fields: ExifField[]): ImageExif | undefined {
+  return compact(Object.fromEntries(fields.map(field => [field, exif[field]])) as ImageExif)
+}
+
+/**
+ * Rewrite the file rotated upright (EXIF orientation applied) and without
+ * EXIF, XMP or IPTC — the colour profile is kept. Files with none of these
+ * are left alone and null is returned.
+ */
+export async function stripMetadata(file: string, metadata: sharp.Metadata): Promise<sharp.OutputInfo | null> {
+  const rotated = (metadata.orientation || 1) !== 1
+  if (!metadata.exif && !metadata.xmp && !metadata.iptc && !rotated) return null
+
+  let pipeline = sharp(file).rotate().keepIccProfile()
+  if (metadata.format === 'jpeg') pipeline = pipeline.jpeg({ quality: 92, mozjpeg: true })
+
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true })
+  fs.writeFileSync(file, data)
+  return info
+}
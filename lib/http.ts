@@ -0,0 +1,50 @@
+/**
+ * HTTP caching for public API responses
+ *
+ * Validators come from the storage revision (lib/db getGalleryRevision):
+ * the ETag covers the revision plus the request URL, so every query string
+ * has its own tag. Clients must revalidate each time (max-age=0) and get a
+ * bodyless 304 while nothing changed.
+ */
+import { createHash } from 'crypto'
+import type { NextApiRequest, NextApiResponse } from 'next'
+import type { Revision } from '@/lib/storage'
+
+/**
+ * Set ETag / Last-Modified / Cache-Control and answer a conditional request.
+ * Returns true when a 304 was sent and the handler should stop.
+ */
+export function notModified(req: NextApiRequest, res: NextApiResponse, revision: Revision): boolean {
+  const hash = createHash('sha1').update(`${revision.tag}|${req.url}`).digest('base64url')
+  const etag = `W/"${hash.slice(0, 27)}"`
+  // HTTP dates have second precision
+  const modified = new Date(Math.floor(revision.modified.getTime() / 1000) * 1000)
+
+  res.setHeader('ETag', etag)
+  res.setHeader('Last-Modified', modified.toUTCString())
+  res.setHeader('Cache-Control', 'public, max-age=0, must-revalidate')
+
+  const ifNoneMatch = req.headers['if-none-match']
+  const ifModifiedSince = req.headers['if-modified-since']
+
+  // If-None-Match wins over If-Modified-Since when both are sent
+  const fresh = ifNoneMatch
+    ? ifNoneMatch.split(',').map(tag => tag.trim()).some(tag => tag === etag || tag === '*')
+    : Boolean(ifModifiedSince) && modified.getTime() <= new Date(ifModifiedSince as string).getTime()
+
+  if (fresh) {
+    res.status(304).end()
+    return true
+  }
+  return false
+}
+
+/**
+ * 200 JSON response that keeps the ETag set by notModified — res.json()
+ * would replace it with a hash of the body.
+ */
+export function sendJson(res: NextApiResponse, body: unknown): void {
+  res.statusCode = 200
+  res.setHeader('Content-Type', 'application/json; charset=utf-8')
+  res.end(JSON.stringify(body))
+}
@@ -1,73 +1,222 @@
-import fs from 'fs'
-import path from 'path'
+/**
+ * ImageData — unified record format for the hegiahe2 gallery
+ *
+ * Shared by the API routes (through lib/db.ts) and the client components,
+ * so this module must stay free of server-only imports.
+ */
+export type ImageOverlays = {
+  background?: { colors?: string[]; material_blur?: string }
+  textColor?: string
+  icon?: { type?: string; data?: string }
+}
+
+/**
+ * Who can see an image:
+ *   public   — gallery grid, search, tags and albums
+ *   unlisted — only through its direct /p/[slug] link
+ *   private  — admin only
+ */
+export type Visibility = 'public' | 'unlisted' | 'private'
+
+export const VISIBILITIES: Visibility[] = ['public', 'unlisted', 'private']
+
+/**
+ * Gallery order, set by the admin (lib/db getSortMode):
+ *   chronological — newest first, pins ignored
+ *   manual        — pinned first, then order_index (0 = not placed yet, first)
+ *   pinned        — pinned first, then newest first
+ */
+export type SortMode = 'chronological' | 'manual' | 'pinned'
+
+export const SORT_MODES: SortMode[] = ['chronological', 'manual', 'pinned']
 
 /**
- * ImageData — unified format for hegiahe2 gallery
- * Source: Locket moments synced via /api/locket/sync
+ * A resized copy of an uploaded image (lib/derivatives). ImageCard and
+ * ImageModal turn these into <picture> sources with srcset/sizes.
  */
+export type VariantFormat = 'avif' | 'webp' | 'jpeg'
+
+export const VARIANT_FORMATS: VariantFormat[] = ['avif', 'webp', 'jpeg']
+
+export type ImageVariant = {
+  url: string
+  format: VariantFormat
+  width: number
+  height: number
+  size: number
+}
+
+/**
+ * Camera metadata read from an upload's EXIF (lib/exif). The published file
+ * itself is rotated upright and carries no metadata.
+ */
+export type ImageExif = {
+  taken_at?: string          // Capture time, ISO
+  camera?: string            // "Make Model"
+  lens?: string
+  exposure?: {
+    shutter?: string         // "1/250"
+    aperture?: number        // f-number
+    iso?: number
+    focal_length?: number    // mm
+  }
+  orientation?: number       // EXIF orientation of the original upload
+  location?: { latitude: number; longitude: number; altitude?: number }  // Only with keepLocation
+}
+
+export type ExifField = keyof ImageExif
+
+export const EXIF_FIELDS: ExifField[] = ['taken_at', 'camera', 'lens', 'exposure', 'orientation', 'location']
+
+/**
+ * Admin EXIF policy (lib/db getExifSettings):
+ *   keepLocation — record GPS coordinates of new uploads (never kept in the file)
+ *   publicFields — the ImageExif parts visitors get from the public API
+ */
+export type ExifSettings = {
+  keepLocation: boolean
+  publicFields: ExifField[]
+}
+
+/**
+ * Colors picked from the pixels (lib/palette), as #rrggbb. The dominant
+ * color covers the most of the image; accents are other clearly different
+ * colors, most common first.
+ */
+export type ImagePalette = {
+  dominant: string
+  accents: string[]
+}
+
+/**
+ * A video's metadata — probed by lib/probe for synced moments, by lib/video
+ * for uploads. Duration and frame size are missing when the container
+ * couldn't be read.
+ */
+export type VideoMetadata = {
+  duration?: number          // Seconds
+  width?: number             // Displayed frame size, rotation applied
+  height?: number
+  size: number               // Bytes
+  mime_type: string
+  poster_url: string         // Still shown before playback — the moment's image
+  original_url?: string      // Uploaded file, when video_url is a transcoded rendition (lib/video)
+}
+
+/**
+ * Where a mirrored Locket image's media came from (lib/mirror). The CDN
+ * URLs are signed and expire — kept for reference only.
+ */
+export type RemoteMedia = {
+  image_url: string
+  thumbnail_url?: string
+  video_url?: string
+  mirrored_at: string
+}
+
 export type ImageData = {
-  id: string
+  id: number
   slug: string
   image_url: string          // Full-resolution image URL
   thumbnail_url?: string     // Compressed thumbnail URL (for grid loading)
+  variants?: ImageVariant[]  // Responsive derivatives; uploads and mirrored Locket images
+  placeholder?: string       // Tiny blurred preview, data: URI (lib/placeholder)
+  palette?: ImagePalette
+  phash?: string             // Perceptual hash, 16 hex digits (lib/phash)
   video_url?: string
+  video?: VideoMetadata
   title: string
   description?: string
   caption?: string
-  width: number
+  width: number              // 0 until known (synced moments are probed, lib/probe)
   height: number
+  file_size?: number
+  mime_type?: string         // Of image_url
   created_at: string
-  order_index: number
-  source?: string
-  overlays?: {
-    background?: { colors?: string[] }
-    textColor?: string
-    icon?: { type?: string; data?: string }
-  } | null
+  updated_at: string
+  order_index: number        // Position in manual order (lib/db reorderImages)
+  pinned?: boolean           // Leads the grid in manual and pinned sort modes
+  source?: string            // 'upload' | 'locket'
+  locket_user_id?: string
+  locket_moment_id?: string  // Synced moment id — the slug may be renamed
+  remote?: RemoteMedia       // Original CDN URLs once the media is mirrored locally
+  overlays?: ImageOverlays | null
+  tags?: string[]            // Normalized by lib/tags
+  deleted_at?: string        // Set while the image is in the trash
+  visibility?: Visibility    // 'public' when missing
+  exif?: ImageExif           // Uploads only; visitors see ExifSettings.publicFields
 }
 
+/** Fields the store assigns itself; everything else comes from the caller */
+export type NewImageData = Omit<ImageData, 'id' | 'created_at' | 'updated_at'> &
+  Partial<Pick<ImageData, 'created_at' | 'updated_at'>>
+
 /**
- * Get all images from database (Locket-synced only)
+ * ISO string for an ISO date, epoch-ms number or numeric string; '' if invalid
  */
-export function getAllImages(): ImageData[] {
-  const dbPath = path.join(process.cwd(), 'database', 'images.json')
-
-  try {
-    if (fs.existsSync(dbPath)) {
-      const dbData = fs.readFileSync(dbPath, 'utf8')
-      const db = JSON.parse(dbData)
-      const images = Array.isArray(db) ? db : (db.images || [])
-
-      return images
-        .map((img: any) => ({
-          id: String(img.id || img.slug || ''),
-          slug: img.slug || '',
-          image_url: img.image_url || img.thumbnailUrl || '',
-          thumbnail_url: img.thumbnail_url || img.thumbnailUrl || img.image_url || '',
-          video_url: img.video_url || img.videoUrl || undefined,
-          title: img.title || img.caption || '',
-          description: img.description || '',
-          caption: img.caption || img.title || '',
-          width: img.width || 800,
-          height: img.height || 800,
-          created_at: img.created_at || new Date().toISOString(),
-          order_index: img.order_index || 0,
-          source: img.source || 'locket',
-          overlays: img.overlays || null,
-        }))
-        .filter((img: ImageData) => img.image_url) // Must have valid URL
-        .sort((a: ImageData, b: ImageData) => {
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        })
-    }
-  } catch (error) {
-    console.log('Error reading database:', error)
-  }
+export function toIsoTimestamp(value: unknown): string {
+  if (value === null || value === undefined || value === '') return ''
+  const date = typeof value === 'number' || /^\d+$/.test(String(value))
+    ? new Date(Number(value))
+    : new Date(String(value))
+  return isNaN(date.getTime()) ? '' : date.toISOString()
+}
+
+/**
+ * srcset for one format of the image's derivatives, narrowest first;
+ * '' when there are none. URLs are encoded — older uploads kept spaces in
+ * their filenames, which would split a candidate.
+ */
+export function variantSrcSet(image: ImageData, format: VariantFormat): string {
+  return (image.variants || [])
+    .filter(v => v.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map(v => `${encodeURI(v.url)} ${v.width}w`)
+    .join(', ')
+}
+
+/**
+ * CSS aspect-ratio of the image as stored ("4 / 3"); square while the
+ * dimensions are unknown
+ */
+export function aspectRatio(image: Pick<ImageData, 'width' | 'height'>): string {
+  return image.width > 0 && image.height > 0 ? `${image.width} / ${image.height}` : '1 / 1'
+}
+
+/** Video length as "0:07" / "1:02:03"; '' when unknown */
+export function formatDuration(seconds?: number): string {
+  if (!seconds || seconds < 0) return ''
+  const total = Math.round(seconds)
+  const [h, m, s] = [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60]
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`
+}
+
+/**
+ * One-line camera summary for the viewer, from whatever EXIF is public:
+ * "FUJIFILM X-T4 · 23mm · f/2 · 1/250s · ISO 160"; '' when there is none
+ */
+export function exifSummary(exif?: ImageExif): string {
+  if (!exif) return ''
+  const { exposure = {} } = exif
+  return [
+    exif.camera,
+    exif.lens,
+    exposure.focal_length && `${exposure.focal_length}mm`,
+    exposure.aperture && `f/${exposure.aperture}`,
+    exposure.shutter && `${exposure.shutter}s`,
+    exposure.iso && `ISO ${exposure.iso}`,
+  ].filter(Boolean).join(' · ')
+}
+
+export function isVisibility(value: unknown): value is Visibility {
+  return VISIBILITIES.includes(value as Visibility)
+}
 
-  return []
+export function isExifField(value: unknown): value is ExifField {
+  return EXIF_FIELDS.includes(value as ExifField)
 }
 
-export function getImageBySlug(slug: string): ImageData | null {
-  const images = getAllImages()
-  return images.find(img => img.slug === slug) || null
+export function isSortMode(value: unknown): value is SortMode {
+  return SORT_MODES.includes(value as SortMode)
 }
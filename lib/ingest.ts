@@ -0,0 +1,234 @@
+/**
+ * Turning an uploaded file into an image record
+ *
+ * Shared by multipart uploads (/api/admin/images, one or many files per
+ * request) and chunked uploads (/api/admin/uploads, lib/chunked). Files
+ * arrive in a private staging directory and are only moved into
+ * public/uploads once their metadata is gone; videos get a poster frame
+ * (lib/video), which stands in for the image from then on. Whatever went wrong is
+ * returned with its HTTP status, so a batch can report every file.
+ */
+import { randomBytes } from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import sharp from 'sharp'
+import { analyzeImage } from '@/lib/analysis'
+import type { AuditContext } from '@/lib/audit'
+import { createImage, getExifSettings, getManagedImages } from '@/lib/db'
+import { createVariants } from '@/lib/derivatives'
+import { findDuplicates, summarizeMatch, type DuplicateSummary } from '@/lib/duplicates'
+import { readExif, stripMetadata } from '@/lib/exif'
+import { isVisibility, type ImageData, type ImageExif, type ImageVariant, type Visibility } from '@/lib/images'
+import { imageMimeType } from '@/lib/probe'
+import { slugify } from '@/lib/slug'
+import { normalizeTags } from '@/lib/tags'
+import { UPLOAD_DIR, uploadPath } from '@/lib/uploads'
+import { ffmpegAvailable, isVideoFile, processVideoUpload, transcodeByDefault, type ProcessedVideo } from '@/lib/video'
+
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024 // 10MB
+export const MAX_VIDEO_SIZE = 200 * 1024 * 1024 // 200MB
+
+/** What the upload form (or a chunked upload's init) says about the file */
+export type UploadOptions = {
+  title?: string
+  description?: string
+  slug?: string
+  tags: string[]
+  visibility: Visibility
+  rejectDuplicates: boolean
+  transcode: boolean
+}
+
+/** A received file, still in a private staging directory */
+export type IncomingFile = {
+  filepath: string
+  originalFilename: string
+  mimetype?: string | null
+  size: number
+}
+
+export type IngestResult =
+  | { image: ImageData; duplicates: DuplicateSummary[] }
+  | { error: string; status: number; duplicates?: DuplicateSummary[] }
+
+type FieldValue = string | string[] | undefined
+
+function first(value: FieldValue): string | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Upload options from form fields (or a JSON body): title, description,
+ * slug, tags, visibility, duplicates=reject and transcode=true|false
+ */
+export function uploadOptions(fields: Record<string, FieldValue>): UploadOptions {
+  const visibility = first(fields.visibility)
+  const transcode = first(fields.transcode)
+  return {
+    title: first(fields.title) || undefined,
+    description: first(fields.description) ?? undefined,
+    slug: first(fields.slug) || undefined,
+    tags: normalizeTags([fields.tags || []].flat().join(',')),
+    visibility: isVisibility(visibility) ? visibility : 'public',
+    rejectDuplicates: first(fields.duplicates) === 'reject',
+    transcode: transcode === undefined ? transcodeByDefault() : transcode === 'true',
+  }
+}
+
+/** Size limit for a file, by whether it is a video */
+export function maxUploadSize(mimetype: string | null | undefined, filename: string): number {
+  return isVideoFile(mimetype, filename) ? MAX_VIDEO_SIZE : MAX_IMAGE_SIZE
+}
+
+function baseName(filename: string): string {
+  return filename.replace(/\.[^/.]+$/, '') // Drop the extension
+}
+
+/** Rename, or copy when staging is on another filesystem */
+function moveFile(from: string, to: string): void {
+  try {
+    fs.renameSync(from, to)
+  } catch (error: any) {
+    if (error?.code !== 'EXDEV') throw error
+    fs.copyFileSync(from, to)
+    fs.rmSync(from, { force: true })
+  }
+}
+
+/**
+ * Metadata of an image sharp can decode; null for anything else — another
+ * kind of file, an unsupported format or a truncated one
+ */
+async function decodeImage(file: string): Promise<sharp.Metadata | null> {
+  try {
+    const metadata = await sharp(file).metadata()
+    // metadata() reads the header only; a small copy decodes every pixel row
+    await sharp(file).resize(32, 32, { fit: 'inside' }).toBuffer()
+    return metadata
+  } catch {
+    return null
+  }
+}
+
+function removeFiles(files: string[]): void {
+  for (const file of files) fs.rmSync(file, { force: true })
+}
+
+/**
+ * Publish one file and create its image record. The incoming file is moved
+ * (or removed when it is refused), and everything written for an upload
+ * that fails is removed again, so nothing unstripped stays in /uploads/.
+ */
+export async function ingestUpload(file: IncomingFile, options: UploadOptions, context: AuditContext): Promise<IngestResult> {
+  // Only the name — a client could send a path
+  const originalFilename = path.basename(file.originalFilename || 'upload')
+  const isVideo = isVideoFile(file.mimetype, originalFilename)
+
+  if (file.size > maxUploadSize(file.mimetype, originalFilename)) {
+    fs.rmSync(file.filepath, { force: true })
+    return { error: isVideo ? 'Videos are limited to 200MB' : 'Images are limited to 10MB', status: 413 }
+  }
+  if (isVideo && !(await ffmpegAvailable())) {
+    fs.rmSync(file.filepath, { force: true })
+    return { error: 'Video uploads need ffmpeg (set FFMPEG_PATH)', status: 500 }
+  }
+
+  fs.mkdirSync(UPLOAD_DIR, { recursive: true })
+  // URL-safe, so srcset candidates and links need no escaping. The random
+  // part keeps same-named files uploaded in the same millisecond apart.
+  const extension = path.extname(originalFilename).toLowerCase().replace(/[^.a-z0-9]/g, '') || (isVideo ? '.mp4' : '')
+  const filename = `${Date.now()}-${randomBytes(4).toString('hex')}-${slugify(baseName(originalFilename)) || 'upload'}${extension}`
+  const finalPath = path.join(UPLOAD_DIR, filename)
+
+  const written: string[] = []
+
+  try {
+    // A video's poster frame stands in for the image from here on
+    let processed: ProcessedVideo | null = null
+    let original: sharp.Metadata | null = null
+    let exif: ImageExif | undefined
+    let published: sharp.OutputInfo | null = null
+    if (isVideo) {
+      processed = await processVideoUpload(file.filepath, UPLOAD_DIR, filename, { transcode: options.transcode })
+      fs.rmSync(file.filepath, { force: true })
+      if (!processed) return { error: 'Unsupported video', status: 400 }
+      written.push(...processed.files)
+    } else {
+      // Copy the EXIF worth keeping into the record, then rotate the original
+      // upright and drop its metadata while it is still private (no GPS in /uploads/)
+      original = await decodeImage(file.filepath)
+      if (!original) {
+        fs.rmSync(file.filepath, { force: true })
+        return { error: 'File is not a supported image', status: 400 }
+      }
+      exif = readExif(original, await getExifSettings())
+      published = await stripMetadata(file.filepath, original)
+
+      // Move file
+      moveFile(file.filepath, finalPath)
+      written.push(finalPath)
+    }
+    const stillFilename = processed ? processed.posterFilename : filename
+    const stillPath = path.join(UPLOAD_DIR, stillFilename)
+    const metadata = original || await sharp(stillPath).metadata()
+
+    // Blurred placeholder, color palette and perceptual hash
+    const analysis = await analyzeImage(stillPath)
+
+    // Look-alikes already in the gallery flag the upload, or reject it
+    // with duplicates=reject
+    const duplicates = findDuplicates(analysis.phash, await getManagedImages()).map(summarizeMatch)
+    if (duplicates.length > 0 && options.rejectDuplicates) {
+      removeFiles(written)
+      return { error: 'Image looks like a duplicate', status: 409, duplicates }
+    }
+
+    // Create thumbnail
+    const thumbFilename = `thumb-${stillFilename}`
+    written.push(path.join(UPLOAD_DIR, thumbFilename))
+    await sharp(stillPath)
+      .resize(400, 400, { fit: 'cover' })
+      .toFile(path.join(UPLOAD_DIR, thumbFilename))
+
+    // Width-based AVIF/WebP/JPEG copies for srcset — the upload still
+    // succeeds without them, the grid then falls back to the thumbnail
+    let variants: ImageVariant[] = []
+    try {
+      variants = await createVariants(stillPath, baseName(stillFilename), UPLOAD_DIR)
+      written.push(...variants.map(variant => uploadPath(variant.url)).filter((file): file is string => file !== null))
+    } catch (error) {
+      console.error('Derivative generation error:', error)
+    }
+
+    const image = await createImage({
+      // A custom slug wins over the filename; createImage makes it unique
+      slug: (options.slug && slugify(options.slug)) || slugify(baseName(originalFilename)),
+      title: options.title || baseName(originalFilename) || 'Untitled',
+      caption: options.title, // Filename fallbacks aren't shown as captions
+      description: options.description,
+      image_url: `/uploads/${stillFilename}`,
+      thumbnail_url: `/uploads/${thumbFilename}`,
+      video_url: processed?.video_url,
+      video: processed ? { ...processed.video, poster_url: `/uploads/${stillFilename}` } : undefined,
+      variants,
+      ...analysis,
+      width: processed?.width || published?.width || metadata.width || 0,
+      height: processed?.height || published?.height || metadata.height || 0,
+      file_size: fs.statSync(stillPath).size,
+      mime_type: imageMimeType(metadata),
+      order_index: 0,
+      source: 'upload',
+      tags: options.tags,
+      visibility: options.visibility,
+      exif,
+      // Capture time when the camera recorded one
+      created_at: exif?.taken_at || processed?.recorded_at,
+    }, context)
+
+    return { image, duplicates }
+  } catch (error) {
+    removeFiles([file.filepath, ...written])
+    console.error('Upload error:', originalFilename, error)
+    return { error: isVideo ? 'Failed to process video' : 'Failed to process image', status: 500 }
+  }
+}
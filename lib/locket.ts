@@ -0,0 +1,80 @@
+/**
+ * Locket → gallery helpers shared by /api/locket/sync and /api/locket/reset
+ */
+import { isVisibility, toIsoTimestamp, type NewImageData, type Visibility } from '@/lib/images'
+
+export interface SyncedMoment {
+  id: string
+  imageUrl: string
+  thumbnailUrl: string
+  videoUrl: string | null
+  caption: string | null
+  overlays: any | null
+  createTime: number
+  date: number | string
+}
+
+/**
+ * Fetch personal moments via our own /api/locket/moments route
+ */
+export async function fetchMomentsForSync(
+  idToken: string,
+  localId: string
+): Promise<{ success: boolean; data?: SyncedMoment[]; message?: string }> {
+  const baseUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3000}`
+  const momentsResponse = await fetch(`${baseUrl}/api/locket/moments`, {
+    headers: {
+      'x-locket-token': idToken,
+      'x-locket-uid': localId,
+    },
+  })
+  return momentsResponse.json()
+}
+
+/**
+ * Visibility given to newly synced moments — LOCKET_DEFAULT_VISIBILITY
+ * (public, unlisted or private), public when unset or invalid
+ */
+export function defaultSyncVisibility(): Visibility {
+  const value = process.env.LOCKET_DEFAULT_VISIBILITY
+  return isVisibility(value) ? value : 'public'
+}
+
+/**
+ * Convert a Locket moment into a gallery image (slug = locket-<momentId>)
+ */
+export function momentToImage(
+  moment: SyncedMoment,
+  localId: string,
+  visibility: Visibility = defaultSyncVisibility()
+): NewImageData {
+  // `date` comes back as epoch ms, createTime as epoch seconds
+  const createdAt = toIsoTimestamp(moment.date)
+    || (moment.createTime ? new Date(moment.createTime * 1000).toISOString() : new Date().toISOString())
+
+  return {
+    slug: `locket-${moment.id}`,
+    title: moment.caption || `Locket ${new Date(createdAt).toLocaleDateString('vi-VN')}`,
+    description: moment.videoUrl ? 'Video từ Locket' : 'Ảnh cá nhân từ Locket',
+    image_url: moment.imageUrl || moment.thumbnailUrl,      // Full-res for display
+    video_url: moment.videoUrl || undefined,
+    thumbnail_url: moment.thumbnailUrl || moment.imageUrl,  // Thumbnail for grid
+    width: 0,   // Unknown until probed after the sync (lib/probe)
+    height: 0,
+    created_at: createdAt,
+    order_index: 0,
+    source: 'locket',
+    locket_user_id: localId,
+    locket_moment_id: moment.id,
+    caption: moment.caption || undefined,
+    overlays: moment.overlays || undefined,
+    visibility,
+  }
+}
+
+/**
+ * Moments without any image URL can't be shown in the gallery
+ */
+export function hasMedia(moment: SyncedMoment): boolean {
+  return Boolean(moment.thumbnailUrl || moment.imageUrl)
+}
@@ -0,0 +1,122 @@
+/**
+ * Gallery schema migrations
+ *
+ * Every database stores a schemaVersion (0 when missing). Records read from an
+ * older database are passed through the pending migrations in memory, so the
+ * app always sees current-shape ImageData; /api/admin/migrations (or
+ * `npm run db:migrate`) persists the result and bumps the stored version.
+ * The JSON and memory stores bump it on any image write too, since they
+ * save every record migrated (lib/storage/document).
+ *
+ * Migrations must be idempotent: a SQLite row may already be in the new
+ * shape when it was rewritten by a normal save before the migration was
+ * applied. They only fill in what is missing, never a value that is set —
+ * an empty string included — so they can't undo an admin's later edit.
+ * Append new migrations at the end with the next version number.
+ */
+import { toIsoTimestamp, type ImageData } from '@/lib/images'
+
+type RawRecord = Record<string, any>
+
+export interface Migration {
+  version: number
+  name: string
+  description: string
+  up: (record: RawRecord) => RawRecord
+}
+
+/** Titles sync generated when a moment had no caption ("Locket 21/2/2026") */
+const PLACEHOLDER_TITLE = /^Locket \d/
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'legacy-field-names',
+    description: 'Rename camelCase URL fields to snake_case and make ids numeric',
+    up: ({ imageUrl, thumbnailUrl, videoUrl, ...record }) => ({
+      ...record,
+      id: Number(record.id) || 0,
+      image_url: record.image_url || imageUrl || thumbnailUrl || '',
+      thumbnail_url: record.thumbnail_url || thumbnailUrl || undefined,
+      video_url: record.video_url || videoUrl || undefined,
+    }),
+  },
+  {
+    version: 2,
+    name: 'iso-timestamps',
+    description: 'Convert epoch-ms created_at/updated_at values to ISO strings',
+    up: record => {
+      const createdAt = toIsoTimestamp(record.created_at) || toIsoTimestamp(record.updated_at) || new Date().toISOString()
+      return {
+        ...record,
+        created_at: createdAt,
+        updated_at: toIsoTimestamp(record.updated_at) || createdAt,
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'record-defaults',
+    description: 'Fill required fields missing on hand-written or seeded rows',
+    up: record => ({
+      ...record,
+      slug: record.slug || '',
+      title: record.title || record.caption || '',
+      description: record.description || '',
+      thumbnail_url: record.thumbnail_url || record.image_url,
+      width: record.width ?? 800,
+      height: record.height ?? 800,
+      order_index: record.order_index || 0,
+      overlays: record.overlays || null,
+    }),
+  },
+  {
+    version: 4,
+    name: 'record-source',
+    description: 'Set source on rows that lack it (locket, upload or seed)',
+    up: record => {
+      if (record.source) return record
+      const source = (record.locket_user_id || String(record.slug).startsWith('locket-'))
+        ? 'locket'
+        : String(record.image_url).startsWith('/uploads/') ? 'upload' : 'seed'
+      return { ...record, source }
+    },
+  },
+  {
+    version: 5,
+    name: 'captions-from-titles',
+    description: 'Older syncs stored the Locket caption only as title; copy it to caption',
+    up: record => {
+      if (record.caption !== undefined || !record.title || PLACEHOLDER_TITLE.test(record.title)) return record
+      return { ...record, caption: record.title }
+    },
+  },
+  {
+    version: 6,
+    name: 'visibility-default',
+    description: 'Images from before per-image visibility were all public',
+    up: record => (record.visibility ? record : { ...record, visibility: 'public' }),
+  },
+  {
+    version: 7,
+    name: 'locket-moment-id',
+    description: 'Keep the Locket moment id on synced images, since slugs can now be renamed',
+    up: record => {
+      if (record.locket_moment_id || !String(record.slug).startsWith('locket-')) return record
+      return { ...record, locket_moment_id: String(record.slug).slice('locket-'.length) }
+    },
+  },
+]
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version
+
+export function pendingMigrations(fromVersion: number): Migration[] {
+  return migrations.filter(m => m.version > fromVersion)
+}
+
+/**
+ * Bring one stored image record up to the current schema
+ */
+export function migrateImage(raw: RawRecord, fromVersion: number): ImageData {
+  return pendingMigrations(fromVersion).reduce((record, m) => m.up(record), raw) as ImageData
+}
@@ -0,0 +1,129 @@
+/**
+ * Local copies of Locket media
+ *
+ * Synced moments point at cdn.locketcamera.com URLs signed with a token, so
+ * they break once Locket rotates the token or the moment is deleted. The sync
+ * (and /api/admin/mirror for older records) downloads the image, thumbnail
+ * and video into public/uploads as locket-<momentId>.*, generates responsive
+ * derivatives like an upload does, and points the record at the local files.
+ * The CDN URLs are kept in `remote`. An image that fails keeps its CDN URLs
+ * and is tried again on the next sync.
+ */
+import fs from 'fs'
+import path from 'path'
+import sharp from 'sharp'
+import { createVariants } from '@/lib/derivatives'
+import type { ImageData, ImageVariant } from '@/lib/images'
+import { readMedia, UPLOAD_DIR } from '@/lib/uploads'
+
+const IMAGE_TIMEOUT_MS = 30_000
+const VIDEO_TIMEOUT_MS = 120_000
+const MIRROR_CONCURRENCY = 2
+
+/** Formats browsers show as-is; anything else is re-encoded as JPEG */
+const WEB_EXTENSIONS: Record<string, string> = { jpeg: 'jpg', png: 'png', webp: 'webp', avif: 'avif', gif: 'gif' }
+
+export type MirroredMedia = Required<Pick<ImageData, 'image_url' | 'thumbnail_url' | 'variants' | 'file_size' | 'remote'>> &
+  Pick<ImageData, 'video_url'>
+
+function isRemote(url: string | undefined): url is string {
+  return Boolean(url && /^https?:\/\//i.test(url))
+}
+
+/** Locket images whose media is still only on the CDN */
+export function needsMirror(image: ImageData): boolean {
+  return image.source === 'locket' && isRemote(image.image_url)
+}
+
+/** An image buffer in a format browsers can show, with its file extension */
+async function webImage(data: Buffer): Promise<{ data: Buffer; ext: string }> {
+  const { format } = await sharp(data).metadata()
+  const ext = format && WEB_EXTENSIONS[format]
+  return ext ? { data, ext } : { data: await sharp(data).rotate().jpeg({ quality: 92 }).toBuffer(), ext: 'jpg' }
+}
+
+/**
+ * Download one image's media into public/uploads. Throws (after removing
+ * whatever it wrote) when the image or video can't be fetched; a missing
+ * thumbnail is generated from the image instead.
+ */
+export async function mirrorImage(image: ImageData): Promise<MirroredMedia> {
+  const base = `locket-${(image.locket_moment_id || image.slug).replace(/[^a-zA-Z0-9_-]/g, '')}`
+  const written: string[] = []
+  const write = (filename: string, data: Buffer): string => {
+    const file = path.join(UPLOAD_DIR, filename)
+    fs.writeFileSync(file, data)
+    written.push(file)
+    return `/uploads/${filename}`
+  }
+
+  fs.mkdirSync(UPLOAD_DIR, { recursive: true })
+  try {
+    const original = await webImage(await readMedia(image.image_url, IMAGE_TIMEOUT_MS))
+    const image_url = write(`${base}.${original.ext}`, original.data)
+
+    // Same 400×400 crop as uploads when the CDN thumbnail is missing or broken
+    let thumbnail_url: string
+    try {
+      if (!isRemote(image.thumbnail_url) || image.thumbnail_url === image.image_url) throw new Error('No thumbnail')
+      const thumbnail = await webImage(await readMedia(image.thumbnail_url, IMAGE_TIMEOUT_MS))
+      thumbnail_url = write(`thumb-${base}.${thumbnail.ext}`, thumbnail.data)
+    } catch {
+      const thumbnail = await sharp(original.data).rotate().resize(400, 400, { fit: 'cover' }).jpeg().toBuffer()
+      thumbnail_url = write(`thumb-${base}.jpg`, thumbnail)
+    }
+
+    let video_url: string | undefined
+    if (isRemote(image.video_url)) {
+      const ext = path.extname(new URL(image.video_url).pathname).slice(1).toLowerCase() || 'mp4'
+      video_url = write(`${base}.${ext}`, await readMedia(image.video_url, VIDEO_TIMEOUT_MS))
+    }
+
+    // Like uploads, the image is still usable without derivatives
+    let variants: ImageVariant[] = []
+    try {
+      variants = await createVariants(written[0], base, UPLOAD_DIR)
+    } catch (error) {
+      console.error('Derivative generation error:', image.slug, error)
+    }
+
+    return {
+      image_url,
+      thumbnail_url,
+      video_url,
+      variants,
+      file_size: original.data.length,
+      remote: {
+        image_url: image.image_url,
+        thumbnail_url: image.thumbnail_url,
+        video_url: image.video_url,
+        mirrored_at: new Date().toISOString(),
+      },
+    }
+  } catch (error) {
+    for (const file of written) fs.rmSync(file, { force: true })
+    throw error
+  }
+}
+
+/**
+ * Mirror the Locket images still on the CDN, a few at a time. Images that
+ * fail are logged and left out.
+ */
+export async function mirrorMissing(images: ImageData[]): Promise<Map<number, MirroredMedia>> {
+  const queue = images.filter(needsMirror)
+  const results = new Map<number, MirroredMedia>()
+
+  const worker = async () => {
+    for (let img = queue.shift(); img; img = queue.shift()) {
+      try {
+        results.set(img.id, await mirrorImage(img))
+      } catch (error: any) {
+        console.error('Mirror error:', img.slug, error?.message || error)
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: MIRROR_CONCURRENCY }, worker))
+
+  return results
+}
@@ -0,0 +1,54 @@
+/**
+ * Palette extraction with sharp
+ *
+ * The image is shrunk to at most 64×64 and its pixels grouped into coarse
+ * RGB buckets (3 bits per channel). Each bucket's average color is a
+ * candidate; the most common is the dominant color, and the next ones that
+ * are clearly different from everything picked so far become accents.
+ */
+import sharp from 'sharp'
+import { colorDistance, toHex, type Rgb } from '@/lib/colors'
+import type { ImagePalette } from '@/lib/images'
+
+const SAMPLE_SIZE = 64
+const BUCKET_SHIFT = 5          // 8 bits → 3 bits per channel
+const MAX_ACCENTS = 4
+const MIN_ACCENT_SHARE = 0.03   // Of all pixels
+const MIN_DISTANCE = 60         // Between picked colors, see colorDistance
+
+type Bucket = { sum: Rgb; count: number }
+
+export async function extractPalette(input: string | Buffer): Promise<ImagePalette> {
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const buckets = new Map<number, Bucket>()
+  for (let i = 0; i + 2 < data.length; i += info.channels) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]]
+    const key = ((r >> BUCKET_SHIFT) << 6) | ((g >> BUCKET_SHIFT) << 3) | (b >> BUCKET_SHIFT)
+    const bucket = buckets.get(key) || { sum: [0, 0, 0], count: 0 }
+    bucket.sum = [bucket.sum[0] + r, bucket.sum[1] + g, bucket.sum[2] + b]
+    bucket.count++
+    buckets.set(key, bucket)
+  }
+
+  const pixels = info.width * info.height
+  const candidates = Array.from(buckets.values())
+    .sort((a, b) => b.count - a.count)
+    .map(({ sum, count }) => ({ rgb: sum.map(c => c / count) as Rgb, share: count / pixels }))
+
+  const picked = [candidates[0]]
+  for (const candidate of candidates.slice(1)) {
+    if (picked.length > MAX_ACCENTS || candidate.share < MIN_ACCENT_SHARE) break
+    if (picked.every(p => colorDistance(p.rgb, candidate.rgb) >= MIN_DISTANCE)) picked.push(candidate)
+  }
+
+  return {
+    dominant: toHex(picked[0].rgb),
+    accents: picked.slice(1).map(p => toHex(p.rgb)),
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Perceptual hashes — a 64-bit difference hash (dHash) as 16 hex digits
+ *
+ * The image is shrunk to 9×8 grey pixels and each bit says whether a pixel
+ * is brighter than its right-hand neighbour. Re-encoded, resized or lightly
+ * edited copies of a photo land within a few bits of each other, while
+ * different photos differ in about half of them. Computed by lib/analysis.
+ */
+import sharp from 'sharp'
+
+/** Popcount of each hex digit */
+const BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4]
+
+export async function perceptualHash(input: string | Buffer): Promise<string> {
+  const data = await sharp(input)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  let hash = ''
+  for (let row = 0; row < 8; row++) {
+    let byte = 0
+    for (let col = 0; col < 8; col++) {
+      byte = (byte << 1) | (data[row * 9 + col] > data[row * 9 + col + 1] ? 1 : 0)
+    }
+    hash += byte.toString(16).padStart(2, '0')
+  }
+  return hash
+}
+
+/** Number of differing bits between two hashes (0–64) */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < 16; i++) {
+    distance += BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)]
+  }
+  return distance
+}
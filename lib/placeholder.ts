@@ -0,0 +1,23 @@
+/**
+ * Low-quality image placeholders
+ *
+ * A placeholder is a ~16px WebP of the image as a data: URI (a few hundred
+ * bytes), stored on the record. ImageCard and ImageModal paint it blurred
+ * straight away and cross-fade to the real image once it has loaded.
+ * It is computed with the palette by lib/analysis.
+ */
+import sharp from 'sharp'
+
+const PLACEHOLDER_SIZE = 16
+
+/**
+ * Placeholder for a local file or an image buffer
+ */
+export async function createPlaceholder(input: string | Buffer): Promise<string> {
+  const data = await sharp(input)
+    .rotate()
+    .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+    .webp({ quality: 40 })
+    .toBuffer()
+  return `data:image/webp;base64,${data.toString('base64')}`
+}
@@ -0,0 +1,186 @@
+/**
+ * Media metadata — real dimensions, byte size and MIME type of an image,
+ * plus duration and frame size of its video
+ *
+ * Locket moments arrive without any of it, so synced images are probed
+ * after mirroring (and again when a video's poster moved); older records
+ * are covered by /api/admin/mirror. Videos are read as MP4/QuickTime without
+ * decoding: duration from the movie header, frame size from the video
+ * track header, turned for phone videos recorded sideways. The poster is the
+ * moment's still image, which Locket takes from the video.
+ */
+import sharp from 'sharp'
+import type { ImageData, VideoMetadata } from '@/lib/images'
+import { readMedia } from '@/lib/uploads'
+
+export type MediaMetadata = Required<Pick<ImageData, 'width' | 'height' | 'file_size' | 'mime_type'>> &
+  Pick<ImageData, 'video'>
+
+const IMAGE_TIMEOUT_MS = 30_000
+const VIDEO_TIMEOUT_MS = 120_000
+const PROBE_CONCURRENCY = 4
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heif: 'image/heif',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+}
+
+const VIDEO_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+}
+
+/** MIME type from sharp metadata — AVIF is reported as HEIF with AV1 compression */
+export function imageMimeType(metadata: sharp.Metadata): string {
+  if (metadata.format === 'heif' && metadata.compression === 'av1') return 'image/avif'
+  return (metadata.format && IMAGE_TYPES[metadata.format]) || 'application/octet-stream'
+}
+
+type Box = { type: string; start: number; end: number }  // start/end of the payload
+
+function readBoxes(data: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = []
+  for (let offset = start; offset + 8 <= end;) {
+    let size = data.readUInt32BE(offset)
+    let header = 8
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(data.readBigUInt64BE(offset + 8))
+      header = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < header || offset + size > end) break
+    boxes.push({ type: data.toString('latin1', offset + 4, offset + 8), start: offset + header, end: offset + size })
+    offset += size
+  }
+  return boxes
+}
+
+function findBox(data: Buffer, parent: Box, path: string[]): Box | undefined {
+  let box: Box | undefined = parent
+  for (const type of path) {
+    box = box && readBoxes(data, box.start, box.end).find(child => child.type === type)
+  }
+  return box
+}
+
+/** Seconds between the MP4 epoch (1904) and the Unix epoch */
+const MP4_EPOCH_OFFSET = 2_082_844_800
+
+/**
+ * Duration, frame size and recording time of an MP4/QuickTime file; null
+ * when it isn't one or has no movie header
+ */
+export function readMp4(
+  data: Buffer
+): { duration: number; width?: number; height?: number; mime_type: string; created_at?: string } | null {
+  const root: Box = { type: '', start: 0, end: data.length }
+  const top = readBoxes(data, root.start, root.end)
+  const moov = top.find(box => box.type === 'moov')
+  const mvhd = moov && findBox(data, moov, ['mvhd'])
+  if (!moov || !mvhd) return null
+
+  const ftyp = top.find(box => box.type === 'ftyp')
+  const brand = ftyp ? data.toString('latin1', ftyp.start, ftyp.start + 4) : ''
+
+  const v1 = data[mvhd.start] === 1
+  const timescale = data.readUInt32BE(mvhd.start + (v1 ? 20 : 12))
+  const duration = v1 ? Number(data.readBigUInt64BE(mvhd.start + 24)) : data.readUInt32BE(mvhd.start + 16)
+  const created = v1 ? Number(data.readBigUInt64BE(mvhd.start + 4)) : data.readUInt32BE(mvhd.start + 4)
+
+  // The first track with a frame size is the video track
+  let width: number | undefined
+  let height: number | undefined
+  for (const trak of readBoxes(data, moov.start, moov.end).filter(box => box.type === 'trak')) {
+    const tkhd = findBox(data, trak, ['tkhd'])
+    if (!tkhd) continue
+    const matrix = tkhd.start + (data[tkhd.start] === 1 ? 52 : 40)
+    if (matrix + 44 > tkhd.end) continue
+    const w = Math.round(data.readUInt32BE(matrix + 36) / 65536)
+    const h = Math.round(data.readUInt32BE(matrix + 40) / 65536)
+    if (!w || !h) continue
+    // A 90° or 270° rotation zeroes the matrix's first coefficient
+    const sideways = data.readInt32BE(matrix) === 0
+    ;[width, height] = sideways ? [h, w] : [w, h]
+    break
+  }
+
+  return {
+    duration: timescale ? Math.round((duration / timescale) * 1000) / 1000 : 0,
+    width,
+    height,
+    mime_type: brand === 'qt  ' ? 'video/quicktime' : 'video/mp4',
+    created_at: created > MP4_EPOCH_OFFSET ? new Date((created - MP4_EPOCH_OFFSET) * 1000).toISOString() : undefined,
+  }
+}
+
+/** Whether the image still needs probing — never probed, or its video poster moved */
+export function needsProbe(image: ImageData): boolean {
+  if (!image.mime_type) return true
+  return Boolean(image.video_url) && image.video?.poster_url !== image.image_url
+}
+
+/**
+ * Probe an image (and its video) from its URLs — local /uploads/ files or
+ * remote. For a video moment the video's frame size becomes the record's.
+ */
+export async function probeMedia(image: ImageData): Promise<MediaMetadata> {
+  const data = await readMedia(image.image_url, IMAGE_TIMEOUT_MS)
+  const metadata = await sharp(data).metadata()
+  // EXIF orientations 5-8 are rotated a quarter turn, so width and height swap
+  const rotated = (metadata.orientation || 1) >= 5
+  const result: MediaMetadata = {
+    width: (rotated ? metadata.height : metadata.width) || 0,
+    height: (rotated ? metadata.width : metadata.height) || 0,
+    file_size: data.length,
+    mime_type: imageMimeType(metadata),
+  }
+  if (!image.video_url) return result
+
+  const video = await readMedia(image.video_url, VIDEO_TIMEOUT_MS)
+  const mp4 = readMp4(video)
+  const extension = new URL(image.video_url, 'http://local').pathname.split('.').pop()?.toLowerCase() || ''
+  const videoMetadata: VideoMetadata = {
+    duration: mp4?.duration || undefined,
+    width: mp4?.width,
+    height: mp4?.height,
+    size: video.length,
+    mime_type: mp4?.mime_type || VIDEO_TYPES[extension] || 'application/octet-stream',
+    poster_url: image.image_url,
+  }
+  return {
+    ...result,
+    width: videoMetadata.width || result.width,
+    height: videoMetadata.height || result.height,
+    video: videoMetadata,
+  }
+}
+
+/**
+ * Probe the images that need it, a few at a time. Images that fail are
+ * logged and left out.
+ */
+export async function probeMissing(images: ImageData[]): Promise<Map<number, MediaMetadata>> {
+  const queue = images.filter(needsProbe)
+  const results = new Map<number, MediaMetadata>()
+
+  const worker = async () => {
+    for (let img = queue.shift(); img; img = queue.shift()) {
+      try {
+        results.set(img.id, await probeMedia(img))
+      } catch (error: any) {
+        console.error('Probe error:', img.slug, error?.message || error)
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: PROBE_CONCURRENCY }, worker))
+
+  return results
+}
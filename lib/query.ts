@@ -0,0 +1,194 @@
+/**
+ * Gallery queries — filters and pagination shared by /api/images and
+ * /api/search
+ *
+ * Query string:
+ *   limit      page size (default 24, max 100)
+ *   cursor     opaque nextCursor from the previous response (/api/images only)
+ *   page       1-based page number, used when there is no cursor
+ *   tag, match tags, all (default) or any — see lib/tags
+ *   source     comma-separated: locket, upload, seed
+ *   media      photo | video
+ *   from, to   ISO timestamps or YYYY-MM-DD dates (inclusive) on created_at
+ *   locket_user_id
+ *   color      a color family (red, blue, ...) or hex (#1e90ff) — see lib/colors
+ */
+import type { ImageData, SortMode } from '@/lib/images'
+import { matchesTags, normalizeTags, type TagMatch } from '@/lib/tags'
+import { COLOR_FAMILIES, matchesColor, parseColor } from '@/lib/colors'
+
+export const DEFAULT_PAGE_SIZE = 24
+export const MAX_PAGE_SIZE = 100
+
+export type MediaType = 'photo' | 'video'
+
+export type ImageQuery = {
+  /** Only images with these tags (normalized, see lib/tags) */
+  tags?: string[]
+  tagMatch?: TagMatch
+  source?: string[]
+  media?: MediaType
+  /** Inclusive created_at bounds, ISO strings */
+  from?: string
+  to?: string
+  locketUserId?: string
+  /** Normalized by parseColor: a family name or #rrggbb */
+  color?: string
+}
+
+export type PageRequest = {
+  limit: number
+  cursor?: string
+  page?: number
+}
+
+export type ImagePage<T = ImageData> = {
+  images: T[]
+  total: number              // Matches for the filters, across all pages
+  limit: number
+  page: number | null        // null when paging by cursor
+  totalPages: number
+  nextCursor: string | null  // Pass as ?cursor= to get the next page
+}
+
+type Params = Partial<Record<string, string | string[]>>
+
+/** Single value of a query param, comma-joined when repeated */
+function param(params: Params, key: string): string {
+  return [params[key] || []].flat().join(',').trim()
+}
+
+function list(params: Params, key: string): string[] {
+  return param(params, key).split(',').map(v => v.trim()).filter(Boolean)
+}
+
+/** Date-only bounds cover the whole (UTC) day */
+function parseBound(value: string, end: boolean): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${value}T${end ? '23:59:59.999' : '00:00:00.000'}Z`
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * Read filters from a request query. Returns an error message for values
+ * that can't be understood instead of silently ignoring them.
+ */
+export function parseImageQuery(params: Params): { query: ImageQuery; error?: string } {
+  const query: ImageQuery = {
+    tags: normalizeTags(list(params, 'tag')),
+    tagMatch: param(params, 'match') === 'any' ? 'any' : 'all',
+  }
+
+  const source = list(params, 'source')
+  if (source.length > 0) query.source = source
+
+  const media = param(params, 'media')
+  if (media) {
+    if (media !== 'photo' && media !== 'video') return { query, error: 'media must be photo or video' }
+    query.media = media
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = param(params, key)
+    if (!value) continue
+    const bound = parseBound(value, key === 'to')
+    if (!bound) return { query, error: `${key} must be a date` }
+    query[key] = bound
+  }
+
+  const locketUserId = param(params, 'locket_user_id')
+  if (locketUserId) query.locketUserId = locketUserId
+
+  const color = param(params, 'color')
+  if (color) {
+    const parsed = parseColor(color)
+    if (!parsed) return { query, error: `color must be a hex color or one of ${COLOR_FAMILIES.join(', ')}` }
+    query.color = parsed
+  }
+
+  return { query }
+}
+
+export function parsePageRequest(params: Params): { page: PageRequest; error?: string } {
+  const limitParam = param(params, 'limit')
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE
+  const page: PageRequest = { limit: Math.min(MAX_PAGE_SIZE, Math.floor(limit)) }
+  if (!Number.isFinite(limit) || limit < 1) return { page, error: 'limit must be a positive number' }
+
+  const cursor = param(params, 'cursor')
+  if (cursor) {
+    page.cursor = cursor
+  } else if (param(params, 'page')) {
+    const number = Number(param(params, 'page'))
+    if (!Number.isInteger(number) || number < 1) return { page, error: 'page must be a positive integer' }
+    page.page = number
+  }
+  return { page }
+}
+
+export function matchesQuery(image: ImageData, query: ImageQuery): boolean {
+  if (!matchesTags(image, query.tags || [], query.tagMatch)) return false
+  if (query.source && !query.source.includes(image.source || '')) return false
+  if (query.media && (query.media === 'video') !== Boolean(image.video_url)) return false
+  if (query.from && image.created_at < query.from) return false
+  if (query.to && image.created_at > query.to) return false
+  if (query.locketUserId && image.locket_user_id !== query.locketUserId) return false
+  if (query.color && !matchesColor(image, query.color)) return false
+  return true
+}
+
+/** The fields every sort mode orders by — also what a cursor remembers */
+export type SortKey = Pick<ImageData, 'id' | 'created_at' | 'order_index' | 'pinned'>
+
+/** Newest first; ids break ties so cursors are stable */
+function byNewest(a: SortKey, b: SortKey): number {
+  return b.created_at.localeCompare(a.created_at) || b.id - a.id
+}
+
+/**
+ * Comparator for a gallery sort mode (see SortMode in lib/images)
+ */
+export function compareImages(mode: SortMode): (a: SortKey, b: SortKey) => number {
+  if (mode === 'chronological') return byNewest
+  const byPin = (a: SortKey, b: SortKey) => Number(Boolean(b.pinned)) - Number(Boolean(a.pinned))
+  if (mode === 'pinned') return (a, b) => byPin(a, b) || byNewest(a, b)
+  return (a, b) => byPin(a, b) || (a.order_index || 0) - (b.order_index || 0) || byNewest(a, b)
+}
+
+/**
+ * Cursor for "everything after this image", whatever the sort mode
+ */
+export function encodeCursor(image: SortKey): string {
+  const key = [image.created_at, image.id, image.order_index || 0, image.pinned ? 1 : 0]
+  return Buffer.from(JSON.stringify(key)).toString('base64url')
+}
+
+/** Cursors from before sort modes hold only [created_at, id] */
+export function decodeCursor(cursor: string): SortKey | null {
+  try {
+    const [created_at, id, order_index = 0, pinned = 0] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    return typeof created_at === 'string' && Number.isInteger(id) && Number.isFinite(order_index)
+      ? { created_at, id, order_index, pinned: pinned === 1 }
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Offset pagination for lists without a stable sort key (ranked search)
+ */
+export function paginate<T>(items: T[], request: PageRequest): ImagePage<T> {
+  const page = request.page || 1
+  const start = (page - 1) * request.limit
+  return {
+    images: items.slice(start, start + request.limit),
+    total: items.length,
+    limit: request.limit,
+    page,
+    totalPages: Math.max(1, Math.ceil(items.length / request.limit)),
+    nextCursor: null,
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Gallery full-text search
+ *
+ * Text is folded before matching — lowercased, Vietnamese diacritics
+ * removed and đ → d — so "da lat" finds "Đà Lạt". Every query word must
+ * appear in at least one searchable field; results are ranked by where and
+ * how well the words match (whole word > word prefix > inside a word,
+ * title/caption > tags > description/overlay text), plus a bonus when the
+ * whole query appears as a phrase.
+ */
+import type { ImageData } from '@/lib/images'
+
+const FIELD_WEIGHTS: Array<[string, number, (img: ImageData) => string]> = [
+  ['title', 3, img => img.title],
+  ['caption', 3, img => img.caption || ''],
+  ['tags', 2, img => (img.tags || []).join(' ').replace(/-/g, ' ')],
+  ['description', 1, img => img.description || ''],
+  ['overlay', 1, img => img.overlays?.icon?.data || ''],
+]
+
+export type SearchResult = {
+  image: ImageData
+  score: number
+}
+
+/**
+ * Lowercase and strip diacritics: "Đà Lạt" → "da lat"
+ */
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Combining accents left by NFD
+    .replace(/[đĐ]/g, 'd')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{Extended_Pictographic}]+/gu, ' ')
+    .trim()
+}
+
+function tokenScore(words: string[], text: string, token: string): number {
+  if (words.includes(token)) return 3
+  if (words.some(word => word.startsWith(token))) return 2
+  return text.includes(token) ? 1 : 0
+}
+
+/**
+ * Score one image against a folded query; 0 means no match
+ */
+function scoreImage(image: ImageData, query: string, tokens: string[]): number {
+  const fields = FIELD_WEIGHTS.map(([, weight, read]) => {
+    const text = foldText(read(image))
+    return { weight, text, words: text.split(' ') }
+  })
+
+  let score = 0
+  for (const token of tokens) {
+    const best = Math.max(...fields.map(f => f.weight * tokenScore(f.words, f.text, token)))
+    if (best === 0) return 0 // Every word must match somewhere
+    score += best
+  }
+
+  if (tokens.length > 1) {
+    score += Math.max(...fields.map(f => (f.text.includes(query) ? f.weight * 2 : 0)))
+  }
+  return score
+}
+
+/**
+ * Rank images for a search query, best match first (newest first on ties)
+ */
+export function searchImages(images: ImageData[], rawQuery: string): SearchResult[] {
+  const query = foldText(rawQuery)
+  const tokens = Array.from(new Set(query.split(' ').filter(Boolean)))
+  if (tokens.length === 0) return []
+
+  return images
+    .map(image => ({ image, score: scoreImage(image, query, tokens) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || b.image.created_at.localeCompare(a.image.created_at))
+}
@@ -0,0 +1,36 @@
+/**
+ * URL slugs for images and albums
+ *
+ * Vietnamese text is transliterated rather than dropped: "Đà Lạt mùa đông"
+ * becomes "da-lat-mua-dong". Image slugs are kept unique by lib/db, and a
+ * renamed image leaves a SlugRedirect behind so old /p/... links still work.
+ */
+
+/** An image's former slug, pointing at its current one */
+export type SlugRedirect = {
+  id: number
+  from_slug: string
+  to_slug: string
+  created_at: string
+}
+
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Combining accents left by NFD
+    .replace(/[đĐ]/g, 'd')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-') // Replace non-alphanumeric with dash
+    .replace(/^-+|-+$/g, '') // Remove leading/trailing dashes
+}
+
+/**
+ * First of base, base-2, base-3, ... that isn't taken
+ */
+export function uniqueSlug(base: string, isTaken: (slug: string) => boolean): string {
+  const root = base || 'image'
+  if (!isTaken(root)) return root
+  let n = 2
+  while (isTaken(`${root}-${n}`)) n++
+  return `${root}-${n}`
+}
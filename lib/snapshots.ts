@@ -0,0 +1,211 @@
+/**
+ * Gallery snapshots — point-in-time copies of every image record, album and
+ * slug redirect
+ *
+ * Taken automatically before destructive operations (Locket reset, schema
+ * migrations, restores) and on demand from /api/admin/snapshots. Snapshots
+ * are plain JSON files in SNAPSHOT_DIR (default database/snapshots), so they
+ * work the same for every storage backend and can be inspected by hand.
+ *
+ * Retention: the newest SNAPSHOT_KEEP (default 20) are kept, and anything
+ * older than SNAPSHOT_MAX_AGE_DAYS (default 30) is removed — except the
+ * newest MIN_KEEP, which always survive so a restore point exists.
+ */
+import fs from 'fs'
+import path from 'path'
+import type { Album } from '@/lib/albums'
+import { recordEvents, SYSTEM_CONTEXT, type AuditContext } from '@/lib/audit'
+import type { ImageData } from '@/lib/images'
+import type { SlugRedirect } from '@/lib/slug'
+import { CURRENT_SCHEMA_VERSION, migrateImage } from '@/lib/migrations'
+import { getStorage } from '@/lib/storage'
+import { writeFileAtomic } from '@/lib/storage/atomic'
+
+const MIN_KEEP = 3
+
+export type SnapshotInfo = {
+  id: string
+  reason: string
+  created_at: string
+  imageCount: number
+  size: number
+}
+
+type SnapshotFile = {
+  reason: string
+  created_at: string
+  backend: string
+  schemaVersion: number
+  images: ImageData[]
+  // Album membership and redirects point at image ids and slugs, so they are
+  // restored with the images; missing from older snapshots
+  albums?: Album[]
+  redirects?: SlugRedirect[]
+}
+
+export type SnapshotDiff = {
+  added: Array<Pick<ImageData, 'id' | 'slug' | 'title'>>     // in the gallery now, not in the snapshot
+  removed: Array<Pick<ImageData, 'id' | 'slug' | 'title'>>   // in the snapshot, gone from the gallery
+  changed: Array<Pick<ImageData, 'id' | 'slug' | 'title'> & { fields: string[] }>
+}
+
+function snapshotDir(): string {
+  return process.env.SNAPSHOT_DIR || path.join(process.cwd(), 'database', 'snapshots')
+}
+
+function snapshotPath(id: string): string {
+  if (!/^[\w-]+$/.test(id)) throw new Error('Invalid snapshot id')
+  return path.join(snapshotDir(), `${id}.json`)
+}
+
+function readSnapshotFile(id: string): SnapshotFile | null {
+  const file = snapshotPath(id)
+  if (!fs.existsSync(file)) return null
+  return JSON.parse(fs.readFileSync(file, 'utf8'))
+}
+
+function summary(image: ImageData) {
+  return { id: image.id, slug: image.slug, title: image.title }
+}
+
+export function listSnapshots(): SnapshotInfo[] {
+  const dir = snapshotDir()
+  if (!fs.existsSync(dir)) return []
+
+  return fs.readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .map(name => {
+      const id = name.replace(/\.json$/, '')
+      const file = path.join(dir, name)
+      try {
+        const snapshot = readSnapshotFile(id) as SnapshotFile
+        return {
+          id,
+          reason: snapshot.reason,
+          created_at: snapshot.created_at,
+          imageCount: snapshot.images.length,
+          size: fs.statSync(file).size,
+        }
+      } catch {
+        return null // Unreadable file — ignore rather than break the list
+      }
+    })
+    .filter((info): info is SnapshotInfo => info !== null)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+function pruneSnapshots(): void {
+  const keep = Number(process.env.SNAPSHOT_KEEP) || 20
+  const maxAgeMs = (Number(process.env.SNAPSHOT_MAX_AGE_DAYS) || 30) * 24 * 60 * 60 * 1000
+  const now = Date.now()
+
+  listSnapshots().forEach((snapshot, index) => {
+    if (index < MIN_KEEP) return
+    const expired = now - new Date(snapshot.created_at).getTime() > maxAgeMs
+    if (index >= keep || expired) {
+      fs.rmSync(snapshotPath(snapshot.id), { force: true })
+    }
+  })
+}
+
+/**
+ * Copy every image record into a new snapshot file
+ */
+export async function createSnapshot(reason: string): Promise<SnapshotInfo> {
+  const storage = getStorage()
+  const created_at = new Date().toISOString()
+  const slugReason = reason.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'manual'
+  const id = `${created_at.replace(/[:.]/g, '-')}-${slugReason}`
+
+  const snapshot: SnapshotFile = {
+    reason,
+    created_at,
+    backend: storage.name,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    images: await storage.images.list(),
+    albums: await storage.albums.list(),
+    redirects: await storage.redirects.list(),
+  }
+
+  const data = JSON.stringify(snapshot, null, 2)
+  writeFileAtomic(snapshotPath(id), data)
+  pruneSnapshots()
+
+  return { id, reason, created_at, imageCount: snapshot.images.length, size: Buffer.byteLength(data) }
+}
+
+function snapshotImages(snapshot: SnapshotFile): ImageData[] {
+  return snapshot.images.map(img => migrateImage(img, snapshot.schemaVersion || 0))
+}
+
+/**
+ * Compare a snapshot with the current gallery. Images are matched by slug,
+ * since a Locket reset renumbers ids but keeps locket-<momentId> slugs.
+ */
+export async function diffSnapshot(id: string): Promise<SnapshotDiff | null> {
+  const snapshot = readSnapshotFile(id)
+  if (!snapshot) return null
+
+  const current = await getStorage().images.list()
+  const then = new Map(snapshotImages(snapshot).map(img => [img.slug, img]))
+  const now = new Map(current.map(img => [img.slug, img]))
+
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [] }
+
+  for (const image of current) {
+    const old = then.get(image.slug)
+    if (!old) {
+      diff.added.push(summary(image))
+      continue
+    }
+    const keys = new Set([...Object.keys(old), ...Object.keys(image)])
+    const fields = Array.from(keys).filter(key =>
+      key !== 'id' && key !== 'updated_at' &&
+      JSON.stringify((old as any)[key]) !== JSON.stringify((image as any)[key])
+    )
+    if (fields.length > 0) diff.changed.push({ ...summary(image), fields })
+  }
+
+  for (const image of Array.from(then.values())) {
+    if (!now.has(image.slug)) diff.removed.push(summary(image))
+  }
+
+  return diff
+}
+
+/**
+ * Replace the gallery with a snapshot — images, and albums and redirects
+ * when the snapshot has them. The current state is snapshotted first, so a
+ * restore can itself be undone.
+ */
+export async function restoreSnapshot(
+  id: string,
+  context: AuditContext = SYSTEM_CONTEXT
+): Promise<{ restoredCount: number; backup: SnapshotInfo } | null> {
+  const snapshot = readSnapshotFile(id)
+  if (!snapshot) return null
+
+  const backup = await createSnapshot('restore')
+  // One write, so a failure leaves the gallery as it was
+  const restored = await getStorage().transaction(tx => {
+    const images = tx.images.load(snapshotImages(snapshot))
+    if (snapshot.albums) tx.albums.load(snapshot.albums)
+    if (snapshot.redirects) tx.redirects.load(snapshot.redirects)
+    return images
+  })
+  await recordEvents(context, [{
+    image_id: null,
+    action: 'snapshot-restore',
+    changes: {},
+    details: { snapshot: id, backup: backup.id, restoredCount: restored.length },
+  }])
+
+  return { restoredCount: restored.length, backup }
+}
+
+export function deleteSnapshot(id: string): boolean {
+  const file = snapshotPath(id)
+  if (!fs.existsSync(file)) return false
+  fs.rmSync(file)
+  return true
+}
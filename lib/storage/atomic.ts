@@ -0,0 +1,93 @@
+/**
+ * File-safety helpers for the JSON store
+ *
+ * - writeFileAtomic: temp file + fsync + rename, so readers and crashes only
+ *   ever see the old or the new content, never a truncated file
+ * - withFileLock: serializes writers, in-process through a promise queue and
+ *   across processes through an exclusive `<file>.lock`
+ */
+import fs from 'fs'
+import path from 'path'
+
+const LOCK_RETRY_MS = 25
+const LOCK_TIMEOUT_MS = 10_000
+/** A lock older than this is assumed to belong to a crashed process */
+const LOCK_STALE_MS = 30_000
+
+export function writeFileAtomic(file: string, data: string): void {
+  const dir = path.dirname(file)
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true })
+
+  const tmp = `${file}.tmp-${process.pid}-${Date.now()}`
+  const fd = fs.openSync(tmp, 'w')
+  try {
+    fs.writeFileSync(fd, data)
+    fs.fsyncSync(fd)
+  } finally {
+    fs.closeSync(fd)
+  }
+
+  try {
+    fs.renameSync(tmp, file)
+  } catch (error) {
+    fs.rmSync(tmp, { force: true })
+    throw error
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function acquireLockFile(lockPath: string): Promise<void> {
+  const started = Date.now()
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' })
+      return
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') throw error
+    }
+
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+        console.warn('Removing stale lock file:', lockPath)
+        fs.rmSync(lockPath, { force: true })
+        continue
+      }
+    } catch {
+      continue // Lock vanished between the write and the stat — retry now
+    }
+
+    if (Date.now() - started > LOCK_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for ${lockPath}`)
+    }
+    await sleep(LOCK_RETRY_MS)
+  }
+}
+
+const queues = new Map<string, Promise<unknown>>()
+
+/**
+ * Run fn while holding the write lock for file. Calls for the same file are
+ * queued in order; a failing call does not block the ones after it.
+ */
+export function withFileLock<R>(file: string, fn: () => R | Promise<R>): Promise<R> {
+  const previous = queues.get(file) || Promise.resolve()
+  const lockPath = `${file}.lock`
+
+  const run = previous.catch(() => undefined).then(async () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    await acquireLockFile(lockPath)
+    try {
+      return await fn()
+    } finally {
+      fs.rmSync(lockPath, { force: true })
+    }
+  })
+
+  queues.set(file, run)
+  run.finally(() => {
+    if (queues.get(file) === run) queues.delete(file)
+  }).catch(() => undefined)
+
+  return run
+}
@@ -0,0 +1,221 @@
+/**
+ * Document-backed collections
+ *
+ * The JSON and memory backends both keep the whole gallery as one document
+ * ({ images, nextId, ... }) and only differ in where that document lives.
+ * This module implements the Collection contract on top of such a document.
+ */
+import type { Album } from '@/lib/albums'
+import type { ImageData } from '@/lib/images'
+import { CURRENT_SCHEMA_VERSION } from '@/lib/migrations'
+import type { SlugRedirect } from '@/lib/slug'
+import type { Collection, CollectionWriter, ConflictMode, Identified, StorageBackend, UpsertResult } from './types'
+
+export type GalleryDocument = {
+  images: any[]
+  nextId: number
+  meta?: Record<string, unknown>
+  [key: string]: unknown
+}
+
+export interface DocumentStore {
+  read(): Promise<GalleryDocument>
+  /** Apply a mutation to the latest document and persist the result */
+  update<R>(mutate: (doc: GalleryDocument) => R): Promise<R>
+}
+
+export function emptyDocument(): GalleryDocument {
+  return { images: [], nextId: 1, meta: { schemaVersion: CURRENT_SCHEMA_VERSION } }
+}
+
+/** Documents written before schema versioning count as version 0 */
+export function schemaVersionOf(doc: GalleryDocument): number {
+  return Number(doc.meta?.schemaVersion) || 0
+}
+
+/**
+ * Accept both the current object shape and the legacy bare array.
+ */
+export function coerceDocument(raw: unknown): GalleryDocument {
+  if (Array.isArray(raw)) {
+    const nextId = Math.max(0, ...raw.map((img: any) => parseInt(img?.id) || 0)) + 1
+    return { images: raw, nextId }
+  }
+  if (raw && typeof raw === 'object') {
+    const doc = raw as Partial<GalleryDocument>
+    const images = Array.isArray(doc.images) ? doc.images : []
+    return {
+      ...doc,
+      images,
+      nextId: doc.nextId || Math.max(0, ...images.map((img: any) => parseInt(img?.id) || 0)) + 1,
+    }
+  }
+  return emptyDocument()
+}
+
+export interface CollectionSpec<T> {
+  key: string
+  counter: string
+  /** Upgrade a stored record written at the given schema version */
+  normalize: (raw: any, schemaVersion: number) => T
+  /**
+   * The records schema migrations apply to. Every write stores all of them
+   * migrated, so the document's schemaVersion is bumped with it — otherwise
+   * migrations would run again over later edits on the next read.
+   */
+  versioned?: boolean
+}
+
+/** The collection's operations on a document, changed in place */
+function documentWriter<T extends Identified>(doc: GalleryDocument, spec: CollectionSpec<T>): CollectionWriter<T> {
+  const { key, counter, normalize, versioned } = spec
+
+  const recordsOf = (): T[] => {
+    const raw = doc[key]
+    const version = schemaVersionOf(doc)
+    return Array.isArray(raw) ? raw.map(r => normalize(r, version)) : []
+  }
+
+  const store = (rows: T[]) => {
+    doc[key] = rows
+    if (versioned) doc.meta = { ...doc.meta, schemaVersion: CURRENT_SCHEMA_VERSION }
+  }
+
+  const allocate = (record: Omit<T, 'id'>): T => {
+    const id = Number(doc[counter]) || 1
+    doc[counter] = id + 1
+    return { ...record, id } as T
+  }
+
+  return {
+    list() {
+      return recordsOf()
+    },
+
+    get(id) {
+      return recordsOf().find(r => r.id === id) || null
+    },
+
+    findBy(field, value) {
+      return recordsOf().find(r => r[field] === value) || null
+    },
+
+    insert(records) {
+      const rows = recordsOf()
+      const created = records.map(allocate)
+      store([...rows, ...created])
+      return created
+    },
+
+    update(patches) {
+      const rows = recordsOf()
+      const results = patches.map(({ id, changes }) => {
+        const index = rows.findIndex(r => r.id === id)
+        if (index === -1) return null
+        rows[index] = { ...rows[index], ...changes, id }
+        return rows[index]
+      })
+      store(rows)
+      return results
+    },
+
+    upsert(records, field, onConflict: ConflictMode) {
+      const rows = recordsOf()
+      const results: UpsertResult<T>[] = records.map(r => {
+        const value = (r as any)[field]
+        const index = rows.findIndex(row => row[field] === value)
+        if (index === -1) {
+          const record = allocate(r)
+          rows.push(record)
+          return { record, created: true }
+        }
+        if (onConflict === 'update') {
+          rows[index] = { ...rows[index], ...r, id: rows[index].id }
+        }
+        return { record: rows[index], created: false }
+      })
+      store(rows)
+      return results
+    },
+
+    remove(ids) {
+      const rows = recordsOf()
+      const kept = rows.filter(r => !ids.includes(r.id))
+      store(kept)
+      return rows.length - kept.length
+    },
+
+    replaceAll(records) {
+      doc[counter] = 1
+      const created = records.map(allocate)
+      store(created)
+      return created
+    },
+
+    load(records) {
+      const maxId = Math.max(0, ...records.map(r => r.id))
+      doc[counter] = Math.max(Number(doc[counter]) || 1, maxId + 1)
+      store(records)
+      return records
+    },
+  }
+}
+
+export function createDocumentCollection<T extends Identified>(
+  store: DocumentStore,
+  spec: CollectionSpec<T>
+): Collection<T> {
+  const read = async () => documentWriter(await store.read(), spec)
+  const write = <R>(fn: (writer: CollectionWriter<T>) => R): Promise<R> =>
+    store.update(doc => fn(documentWriter(doc, spec)))
+
+  return {
+    async list() {
+      return (await read()).list()
+    },
+    async get(id) {
+      return (await read()).get(id)
+    },
+    async findBy(field, value) {
+      return (await read()).findBy(field, value)
+    },
+    insert: records => write(c => c.insert(records)),
+    update: patches => write(c => c.update(patches)),
+    upsert: (records, field, onConflict) => write(c => c.upsert(records, field, onConflict)),
+    remove: ids => write(c => c.remove(ids)),
+    replaceAll: records => write(c => c.replaceAll(records)),
+    load: records => write(c => c.load(records)),
+  }
+}
+
+export type DocumentSpecs = {
+  images: CollectionSpec<ImageData>
+  albums: CollectionSpec<Album>
+  redirects: CollectionSpec<SlugRedirect>
+}
+
+/** StorageBackend.transaction as one store.update of the document */
+export function createDocumentTransaction(store: DocumentStore, specs: DocumentSpecs): StorageBackend['transaction'] {
+  return fn => store.update(doc => fn({
+    images: documentWriter(doc, specs.images),
+    albums: documentWriter(doc, specs.albums),
+    redirects: documentWriter(doc, specs.redirects),
+    getMeta: key => doc.meta?.[key] as any,
+    setMeta: (key, value) => {
+      doc.meta = { ...doc.meta, [key]: value }
+    },
+  }))
+}
+
+export function createDocumentMeta(store: DocumentStore): Pick<StorageBackend, 'getMeta' | 'setMeta'> {
+  return {
+    async getMeta(key) {
+      return (await store.read()).meta?.[key] as any
+    },
+    setMeta(key, value) {
+      return store.update(doc => {
+        doc.meta = { ...doc.meta, [key]: value }
+      })
+    },
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Backend selection
+ *
+ * STORAGE_BACKEND picks the store (default: json). The instance is cached on
+ * globalThis so Next.js dev reloads don't open a second copy.
+ */
+import { createJsonBackend } from './json'
+import { createMemoryBackend } from './memory'
+import { createSqliteBackend } from './sqlite'
+import type { StorageBackend } from './types'
+
+export type { Collection, CollectionWriter, ConflictMode, Revision, StorageBackend, StorageTransaction, UpsertResult } from './types'
+
+const factories: Record<string, () => StorageBackend> = {
+  json: () => createJsonBackend(process.env.JSON_DATABASE_PATH || undefined),
+  memory: () => createMemoryBackend(),
+  sqlite: () => createSqliteBackend(
+    process.env.DATABASE_PATH || undefined,
+    process.env.JSON_DATABASE_PATH || undefined
+  ),
+}
+
+const globalForStorage = globalThis as unknown as { __galleryStorage?: StorageBackend }
+
+export function getStorage(): StorageBackend {
+  if (!globalForStorage.__galleryStorage) {
+    const name = (process.env.STORAGE_BACKEND || 'json').toLowerCase()
+    const factory = factories[name]
+    if (!factory) {
+      throw new Error(`Unknown STORAGE_BACKEND "${name}" (expected one of: ${Object.keys(factories).join(', ')})`)
+    }
+    globalForStorage.__galleryStorage = factory()
+  }
+  return globalForStorage.__galleryStorage
+}
@@ -0,0 +1,158 @@
+/**
+ * JSON file backend — the original database/images.json store
+ *
+ * Writes go through withFileLock + writeFileAtomic. Before each write the
+ * current (successfully parsed) file is kept as `<file>.bak`; if the primary
+ * file ever fails to parse, reads fall back to that last good copy and the
+ * broken file is set aside as `<file>.corrupt-<timestamp>` on the next write.
+ *
+ * Reads are served from a parsed copy that is kept until the file's mtime or
+ * size changes, so edits made outside the app are still picked up.
+ *
+ * The audit trail goes to its own `<name>.events.json` (same safety), so it
+ * never makes gallery reads and writes slower as it grows.
+ */
+import fs from 'fs'
+import path from 'path'
+import { normalizeAlbum } from '@/lib/albums'
+import { normalizeEvent, type AuditEvent } from '@/lib/audit'
+import { migrateImage } from '@/lib/migrations'
+import { withFileLock, writeFileAtomic } from './atomic'
+import { coerceDocument, createDocumentCollection, createDocumentMeta, createDocumentTransaction, emptyDocument, type DocumentSpecs, type DocumentStore, type GalleryDocument } from './document'
+import type { StorageBackend } from './types'
+
+export const DEFAULT_JSON_PATH = path.join(process.cwd(), 'database', 'images.json')
+
+const specs: DocumentSpecs = {
+  images: { key: 'images', counter: 'nextId', normalize: migrateImage, versioned: true },
+  albums: { key: 'albums', counter: 'nextAlbumId', normalize: normalizeAlbum },
+  redirects: { key: 'redirects', counter: 'nextRedirectId', normalize: raw => raw },
+}
+
+type LoadResult = {
+  doc: GalleryDocument
+  /** The primary file exists but could not be parsed */
+  corrupt: boolean
+}
+
+function parseFile(file: string): GalleryDocument {
+  return coerceDocument(JSON.parse(fs.readFileSync(file, 'utf8')))
+}
+
+function loadFile(file: string): LoadResult {
+  if (!fs.existsSync(file)) return { doc: emptyDocument(), corrupt: false }
+
+  try {
+    return { doc: parseFile(file), corrupt: false }
+  } catch (error) {
+    const backup = `${file}.bak`
+    console.error(`Could not parse ${file}, trying ${path.basename(backup)}:`, (error as Error).message)
+    if (!fs.existsSync(backup)) {
+      throw new Error(`${file} is corrupt and no backup exists`)
+    }
+    // A broken backup throws too — never fall back to an empty gallery
+    return { doc: parseFile(backup), corrupt: true }
+  }
+}
+
+function statFile(file: string): fs.Stats | null {
+  try {
+    return fs.statSync(file)
+  } catch {
+    return null
+  }
+}
+
+function cacheKey(stats: fs.Stats | null): string {
+  return stats ? `${stats.mtimeMs.toString(36)}-${stats.size.toString(36)}` : 'missing'
+}
+
+/** Audit events live next to the gallery file — `images.json` → `images.events.json` */
+export function eventsPath(file: string): string {
+  return `${file.replace(/\.json$/, '')}.events.json`
+}
+
+/**
+ * A DocumentStore for one file. `missing` supplies the document while the
+ * file doesn't exist yet, `keys` limits what is written to it.
+ */
+function createFileStore(
+  file: string,
+  { missing = emptyDocument, keys }: { missing?: () => GalleryDocument; keys?: string[] } = {}
+): DocumentStore {
+  let cache: { key: string; doc: GalleryDocument } | null = null
+
+  const load = (): LoadResult => (fs.existsSync(file) ? loadFile(file) : { doc: missing(), corrupt: false })
+  const serialize = (doc: GalleryDocument) =>
+    JSON.stringify(keys ? Object.fromEntries(keys.map(key => [key, doc[key]])) : doc, null, 2)
+
+  return {
+    async read() {
+      const key = cacheKey(statFile(file))
+      if (!cache || cache.key !== key) cache = { key, doc: load().doc }
+      // Callers may mutate what they get back
+      return structuredClone(cache.doc)
+    },
+
+    update(mutate) {
+      return withFileLock(file, () => {
+        const { doc, corrupt } = load()
+        const result = mutate(doc)
+
+        if (corrupt) {
+          fs.renameSync(file, `${file}.corrupt-${Date.now()}`)
+        } else if (fs.existsSync(file)) {
+          writeFileAtomic(`${file}.bak`, fs.readFileSync(file, 'utf8'))
+        }
+        writeFileAtomic(file, serialize(doc))
+        cache = { key: cacheKey(statFile(file)), doc: structuredClone(doc) }
+
+        return result
+      })
+    },
+  }
+}
+
+export function createJsonBackend(file: string = DEFAULT_JSON_PATH): StorageBackend {
+  const eventsFile = eventsPath(file)
+  const gallery = createFileStore(file)
+  // Galleries from before the split keep their events in the main document;
+  // they move over with the first event written
+  const events = createFileStore(eventsFile, {
+    missing: () => {
+      const { doc } = loadFile(file)
+      return { ...emptyDocument(), events: doc.events || [], nextEventId: doc.nextEventId }
+    },
+    keys: ['events', 'nextEventId'],
+  })
+
+  // Drop the moved events from the main document on its next write
+  const store: DocumentStore = {
+    read: gallery.read,
+    update: mutate => gallery.update(doc => {
+      if (fs.existsSync(eventsFile)) {
+        delete doc.events
+        delete doc.nextEventId
+      }
+      return mutate(doc)
+    }),
+  }
+
+  return {
+    name: 'json',
+    images: createDocumentCollection(store, specs.images),
+    albums: createDocumentCollection(store, specs.albums),
+    events: createDocumentCollection<AuditEvent>(events, {
+      key: 'events',
+      counter: 'nextEventId',
+      normalize: normalizeEvent,
+    }),
+    redirects: createDocumentCollection(store, specs.redirects),
+    ...createDocumentMeta(store),
+    transaction: createDocumentTransaction(store, specs),
+    async revision() {
+      const stats = statFile(file)
+      return { tag: `json-${cacheKey(stats)}`, modified: stats?.mtime ?? new Date(0) }
+    },
+  }
+}
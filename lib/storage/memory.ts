@@ -0,0 +1,69 @@
+/**
+ * In-memory backend — nothing touches the disk.
+ * Useful on read-only hosts (Vercel) and for local experiments.
+ */
+import { normalizeAlbum } from '@/lib/albums'
+import { normalizeEvent, type AuditEvent } from '@/lib/audit'
+import { migrateImage } from '@/lib/migrations'
+import { createDocumentCollection, createDocumentMeta, createDocumentTransaction, emptyDocument, type DocumentSpecs, type DocumentStore, type GalleryDocument } from './document'
+import type { StorageBackend } from './types'
+
+const specs: DocumentSpecs = {
+  images: { key: 'images', counter: 'nextId', normalize: migrateImage, versioned: true },
+  albums: { key: 'albums', counter: 'nextAlbumId', normalize: normalizeAlbum },
+  redirects: { key: 'redirects', counter: 'nextRedirectId', normalize: raw => raw },
+}
+
+export function createMemoryBackend(initial: GalleryDocument = emptyDocument()): StorageBackend {
+  let doc: GalleryDocument = structuredClone(initial)
+  let version = 0
+  const created = Date.now().toString(36)
+  let modified = new Date()
+
+  const store: DocumentStore = {
+    async read() {
+      return structuredClone(doc)
+    },
+    async update(mutate) {
+      const next = structuredClone(doc)
+      const result = mutate(next)
+      doc = next
+      version++
+      modified = new Date()
+      return result
+    },
+  }
+
+  // A document of its own, so the audit trail isn't copied on every gallery read
+  let eventDoc: GalleryDocument = { ...emptyDocument(), events: doc.events || [], nextEventId: doc.nextEventId }
+  delete doc.events
+  delete doc.nextEventId
+  const events: DocumentStore = {
+    async read() {
+      return structuredClone(eventDoc)
+    },
+    async update(mutate) {
+      const next = structuredClone(eventDoc)
+      const result = mutate(next)
+      eventDoc = next
+      return result
+    },
+  }
+
+  return {
+    name: 'memory',
+    images: createDocumentCollection(store, specs.images),
+    albums: createDocumentCollection(store, specs.albums),
+    events: createDocumentCollection<AuditEvent>(events, {
+      key: 'events',
+      counter: 'nextEventId',
+      normalize: normalizeEvent,
+    }),
+    redirects: createDocumentCollection(store, specs.redirects),
+    ...createDocumentMeta(store),
+    transaction: createDocumentTransaction(store, specs),
+    async revision() {
+      return { tag: `memory-${created}-${version}`, modified }
+    },
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * SQLite backend (better-sqlite3) — DATABASE_PATH, default database/hegiahe.db
+ *
+ * Core fields live in real columns (slug, created_at and source are indexed);
+ * anything else on a record (video_url, caption, overlays, ...) is kept in
+ * the `extra` JSON column so new record fields need no schema change.
+ *
+ * Albums keep their ordered image_ids in `extra`; audit events live in
+ * audit_events, with the diff in `extra`; renamed image slugs in
+ * slug_redirects.
+ *
+ * On first start an existing database/images.json is imported once.
+ * The meta table holds JSON-encoded values such as schemaVersion.
+ */
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { normalizeAlbum, type Album } from '@/lib/albums'
+import { normalizeEvent, type AuditEvent } from '@/lib/audit'
+import type { ImageData } from '@/lib/images'
+import { CURRENT_SCHEMA_VERSION, migrateImage } from '@/lib/migrations'
+import type { SlugRedirect } from '@/lib/slug'
+import { coerceDocument, schemaVersionOf } from './document'
+import { DEFAULT_JSON_PATH } from './json'
+import type { Collection, CollectionWriter, Identified, StorageBackend, UpsertResult } from './types'
+
+export const DEFAULT_SQLITE_PATH = path.join(process.cwd(), 'database', 'hegiahe.db')
+
+const IMAGE_COLUMNS: Record<string, string> = {
+  slug: 'TEXT UNIQUE NOT NULL',
+  title: 'TEXT NOT NULL',
+  description: 'TEXT',
+  image_url: 'TEXT NOT NULL',
+  thumbnail_url: 'TEXT',
+  width: 'INTEGER NOT NULL',
+  height: 'INTEGER NOT NULL',
+  file_size: 'INTEGER',
+  order_index: 'INTEGER DEFAULT 0',
+  source: 'TEXT',
+  created_at: 'TEXT NOT NULL',
+  updated_at: 'TEXT NOT NULL',
+  deleted_at: 'TEXT',
+  visibility: 'TEXT',
+  extra: 'TEXT',
+}
+
+const ALBUM_COLUMNS: Record<string, string> = {
+  slug: 'TEXT UNIQUE NOT NULL',
+  title: 'TEXT NOT NULL',
+  description: 'TEXT',
+  cover_image_id: 'INTEGER',
+  order_index: 'INTEGER DEFAULT 0',
+  created_at: 'TEXT NOT NULL',
+  updated_at: 'TEXT NOT NULL',
+  extra: 'TEXT',
+}
+
+const EVENT_COLUMNS: Record<string, string> = {
+  image_id: 'INTEGER',
+  action: 'TEXT NOT NULL',
+  actor: 'TEXT',
+  created_at: 'TEXT NOT NULL',
+  extra: 'TEXT',
+}
+
+const REDIRECT_COLUMNS: Record<string, string> = {
+  from_slug: 'TEXT UNIQUE NOT NULL',
+  to_slug: 'TEXT NOT NULL',
+  created_at: 'TEXT NOT NULL',
+  extra: 'TEXT',
+}
+
+function createTable(db: Database.Database, table: string, spec: Record<string, string>): void {
+  const columns = Object.entries(spec).map(([name, type]) => `${name} ${type}`)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ${columns.join(',\n      ')}
+    );
+  `)
+
+  // Tables created by older scripts/setupDB.js lack the newer columns
+  const existing = new Set(
+    (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(c => c.name)
+  )
+  for (const [name, type] of Object.entries(spec)) {
+    if (!existing.has(name)) {
+      // ALTER TABLE can't add UNIQUE/NOT NULL columns without a default
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type.replace(/ UNIQUE| NOT NULL/g, '')}`)
+    }
+  }
+}
+
+function createSchema(db: Database.Database): void {
+  createTable(db, 'images', IMAGE_COLUMNS)
+  createTable(db, 'albums', ALBUM_COLUMNS)
+  createTable(db, 'audit_events', EVENT_COLUMNS)
+  createTable(db, 'slug_redirects', REDIRECT_COLUMNS)
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_images_created_at ON images (created_at);
+    CREATE INDEX IF NOT EXISTS idx_images_source ON images (source);
+    CREATE INDEX IF NOT EXISTS idx_audit_events_image_id ON audit_events (image_id);
+  `)
+}
+
+function readMeta(db: Database.Database, key: string): unknown {
+  const row = db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined
+  if (!row) return undefined
+  try {
+    return JSON.parse(row.value)
+  } catch {
+    return row.value
+  }
+}
+
+function writeMeta(db: Database.Database, key: string, value: unknown): void {
+  db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(key, JSON.stringify(value))
+}
+
+type SqliteCollection<T extends Identified> = Collection<T> & {
+  /** Insert records with their own ids; the id sequence never goes below lastId */
+  insertWithIds(records: T[], lastId?: number): void
+  /** The same operations for StorageBackend.transaction; nested ones become savepoints */
+  writer: CollectionWriter<T>
+}
+
+interface TableSpec<T> {
+  table: string
+  /** Fields stored in their own column; the rest go to `extra` */
+  columns: string[]
+  /** Upgrade a stored record written at the given schema version */
+  normalize: (raw: any, schemaVersion: number) => T
+}
+
+function createSqliteCollection<T extends Identified>(
+  db: Database.Database,
+  spec: TableSpec<T>
+): SqliteCollection<T> {
+  const { table, columns, normalize } = spec
+  const stored = columns.filter(c => c !== 'extra')
+
+  const schemaVersion = () => Number(readMeta(db, 'schemaVersion')) || 0
+
+  const fromRow = (row: any, version = schemaVersion()): T => {
+    const record: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(row)) {
+      if (key !== 'extra' && value !== null) record[key] = value
+    }
+    return normalize(row.extra ? { ...record, ...JSON.parse(row.extra) } : record, version)
+  }
+
+  const allRows = (): T[] => {
+    const version = schemaVersion()
+    return (db.prepare(`SELECT * FROM ${table} ORDER BY id`).all() as any[]).map(row => fromRow(row, version))
+  }
+
+  const toRow = (record: Record<string, any>): Record<string, unknown> => {
+    const row: Record<string, unknown> = {}
+    const extra: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(record)) {
+      if (key === 'id') continue
+      if (stored.includes(key)) row[key] = value ?? null
+      else if (value !== undefined) extra[key] = value
+    }
+    for (const key of stored) if (!(key in row)) row[key] = null
+    row.extra = Object.keys(extra).length > 0 ? JSON.stringify(extra) : null
+    return row
+  }
+
+  const fieldList = [...stored, 'extra']
+  const insertStmt = db.prepare(
+    `INSERT INTO ${table} (${fieldList.join(', ')}) VALUES (${fieldList.map(f => `@${f}`).join(', ')})`
+  )
+  const insertWithIdStmt = db.prepare(
+    `INSERT INTO ${table} (id, ${fieldList.join(', ')}) VALUES (@id, ${fieldList.map(f => `@${f}`).join(', ')})`
+  )
+  const updateStmt = db.prepare(
+    `UPDATE ${table} SET ${fieldList.map(f => `${f} = @${f}`).join(', ')} WHERE id = @id`
+  )
+  const getStmt = db.prepare(`SELECT * FROM ${table} WHERE id = ?`)
+
+  const getRow = (id: number): T | null => {
+    const row = getStmt.get(id)
+    return row ? fromRow(row) : null
+  }
+
+  const findRow = (field: string, value: unknown): T | null => {
+    if (!stored.includes(field)) {
+      return allRows().find(r => (r as any)[field] === value) || null
+    }
+    const row = db.prepare(`SELECT * FROM ${table} WHERE ${field} = ?`).get(value)
+    return row ? fromRow(row) : null
+  }
+
+  const insertOne = (record: Omit<T, 'id'>): T => {
+    const info = insertStmt.run(toRow(record))
+    return getRow(Number(info.lastInsertRowid)) as T
+  }
+
+  const insertWithIds = (records: T[], lastId = 0) => {
+    db.transaction(() => {
+      for (const record of records) insertWithIdStmt.run({ ...toRow(record), id: record.id })
+      // AUTOINCREMENT only tracks the max inserted id; keep ids the old store handed out
+      const seq = Math.max(lastId, ...records.map(r => r.id))
+      const bumped = db.prepare('UPDATE sqlite_sequence SET seq = MAX(seq, ?) WHERE name = ?').run(seq, table)
+      if (bumped.changes === 0) {
+        db.prepare('INSERT INTO sqlite_sequence (name, seq) VALUES (?, ?)').run(table, seq)
+      }
+    })()
+  }
+
+  const updateOne = (id: number, changes: Partial<T>): T | null => {
+    const current = getRow(id)
+    if (!current) return null
+    const next = { ...current, ...changes, id }
+    updateStmt.run({ ...toRow(next), id })
+    return getRow(id)
+  }
+
+  const writer: CollectionWriter<T> = {
+    list: allRows,
+    get: getRow,
+    findBy: (field, value) => findRow(String(field), value),
+    insert: records => db.transaction(() => records.map(insertOne))(),
+    update: patches => db.transaction(() => patches.map(({ id, changes }) => updateOne(id, changes)))(),
+
+    upsert(records, key, onConflict) {
+      return db.transaction(() => records.map((record): UpsertResult<T> => {
+        const existing = findRow(String(key), (record as any)[key])
+        if (!existing) return { record: insertOne(record), created: true }
+        if (onConflict === 'skip') return { record: existing, created: false }
+        return { record: updateOne(existing.id, record as Partial<T>) as T, created: false }
+      }))()
+    },
+
+    remove(ids) {
+      const stmt = db.prepare(`DELETE FROM ${table} WHERE id = ?`)
+      return db.transaction(() => ids.reduce((n, id) => n + stmt.run(id).changes, 0))()
+    },
+
+    replaceAll(records) {
+      return db.transaction(() => {
+        db.prepare(`DELETE FROM ${table}`).run()
+        db.prepare('DELETE FROM sqlite_sequence WHERE name = ?').run(table)
+        return records.map(insertOne)
+      })()
+    },
+
+    load(records) {
+      db.transaction(() => {
+        db.prepare(`DELETE FROM ${table}`).run()
+        insertWithIds(records)
+      })()
+      return allRows()
+    },
+  }
+
+  return {
+    async list() {
+      return writer.list()
+    },
+    async get(id) {
+      return writer.get(id)
+    },
+    async findBy(field, value) {
+      return writer.findBy(field, value)
+    },
+    async insert(records) {
+      return writer.insert(records)
+    },
+    async update(patches) {
+      return writer.update(patches)
+    },
+    async upsert(records, key, onConflict) {
+      return writer.upsert(records, key, onConflict)
+    },
+    async remove(ids) {
+      return writer.remove(ids)
+    },
+    async replaceAll(records) {
+      return writer.replaceAll(records)
+    },
+    async load(records) {
+      return writer.load(records)
+    },
+    insertWithIds,
+    writer,
+  }
+}
+
+/**
+ * One-time import of database/images.json into an empty SQLite database.
+ * Handles both the { images, nextId } object and the legacy bare array; the
+ * records are run through the schema migrations (epoch-ms created_at, legacy
+ * field names, ...) so the new database starts at the current schema version.
+ */
+function importJsonDatabase(
+  db: Database.Database,
+  images: SqliteCollection<ImageData>,
+  jsonPath: string
+): void {
+  if (readMeta(db, 'imported_from_json')) return
+
+  const markImported = (note: string) => writeMeta(db, 'imported_from_json', note)
+
+  const count = (db.prepare('SELECT COUNT(*) AS n FROM images').get() as { n: number }).n
+  if (count > 0) {
+    markImported('skipped: database not empty')
+    return
+  }
+  if (!fs.existsSync(jsonPath)) {
+    markImported('skipped: no images.json')
+    writeMeta(db, 'schemaVersion', CURRENT_SCHEMA_VERSION)
+    return
+  }
+
+  let doc
+  try {
+    doc = coerceDocument(JSON.parse(fs.readFileSync(jsonPath, 'utf8')))
+  } catch (error) {
+    // Leave the flag unset so the import is retried once the file is fixed
+    console.error('SQLite import: could not parse', jsonPath, error)
+    return
+  }
+
+  const slugs = new Set<string>()
+  const records: ImageData[] = []
+  const fromVersion = schemaVersionOf(doc)
+  for (const img of doc.images.map(raw => migrateImage(raw, fromVersion))) {
+    if (!img.image_url || !img.slug || slugs.has(img.slug)) continue
+    slugs.add(img.slug)
+    records.push(img)
+  }
+
+  // Keep the JSON ids; duplicate or missing ones get fresh ids after the max
+  const ids = new Set<number>()
+  let nextId = Math.max(doc.nextId, ...records.map(img => img.id + 1))
+  for (const img of records) {
+    if (!img.id || ids.has(img.id)) img.id = nextId++
+    ids.add(img.id)
+  }
+
+  db.transaction(() => {
+    // Never hand out an id the JSON store had already used
+    images.insertWithIds(records, nextId - 1)
+    writeMeta(db, 'schemaVersion', CURRENT_SCHEMA_VERSION)
+    markImported(`${records.length} images from ${path.basename(jsonPath)} at ${new Date().toISOString()}`)
+  })()
+
+  console.log(`SQLite: imported ${records.length} images from ${jsonPath}`)
+}
+
+export function createSqliteBackend(
+  file: string = DEFAULT_SQLITE_PATH,
+  jsonPath: string = DEFAULT_JSON_PATH
+): StorageBackend {
+  const dir = path.dirname(file)
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true })
+
+  const db = new Database(file)
+  db.pragma('journal_mode = WAL')
+  createSchema(db)
+
+  const images = createSqliteCollection<ImageData>(db, {
+    table: 'images',
+    columns: Object.keys(IMAGE_COLUMNS),
+    normalize: migrateImage,
+  })
+
+  importJsonDatabase(db, images, jsonPath)
+
+  // data_version moves on commits by other connections, total_changes() on
+  // our own writes; together they change whenever the data does. Both restart
+  // with the connection, so the open time keeps tags from repeating.
+  const versionStmt = db.prepare('SELECT total_changes() AS changes')
+  const opened = Date.now().toString(36)
+  let lastTag = ''
+  let modified = new Date()
+
+  const albums = createSqliteCollection<Album>(db, {
+    table: 'albums',
+    columns: Object.keys(ALBUM_COLUMNS),
+    normalize: normalizeAlbum,
+  })
+  const redirects = createSqliteCollection<SlugRedirect>(db, {
+    table: 'slug_redirects',
+    columns: Object.keys(REDIRECT_COLUMNS),
+    normalize: raw => raw,
+  })
+
+  return {
+    name: 'sqlite',
+    images,
+    albums,
+    events: createSqliteCollection<AuditEvent>(db, {
+      table: 'audit_events',
+      columns: Object.keys(EVENT_COLUMNS),
+      normalize: normalizeEvent,
+    }),
+    redirects,
+    async getMeta(key) {
+      return readMeta(db, key) as any
+    },
+    async setMeta(key, value) {
+      writeMeta(db, key, value)
+    },
+    async transaction(fn) {
+      return db.transaction(() => fn({
+        images: images.writer,
+        albums: albums.writer,
+        redirects: redirects.writer,
+        getMeta: key => readMeta(db, key) as any,
+        setMeta: (key, value) => writeMeta(db, key, value),
+      }))()
+    },
+    async revision() {
+      const { changes } = versionStmt.get() as { changes: number }
+      const tag = `sqlite-${opened}-${db.pragma('data_version', { simple: true })}-${changes}`
+      if (tag !== lastTag) {
+        lastTag = tag
+        modified = new Date()
+      }
+      return { tag, modified }
+    },
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Storage backend contract
+ *
+ * lib/db.ts talks to the gallery store only through these interfaces, so the
+ * JSON file, an in-memory store or a real database can be swapped by setting
+ * STORAGE_BACKEND. Batch methods are atomic: either every record is written
+ * or none is. A write that depends on what it reads (a free slug, a tag list,
+ * several collections at once) goes through `transaction` instead.
+ */
+import type { Album } from '@/lib/albums'
+import type { AuditEvent } from '@/lib/audit'
+import type { ImageData } from '@/lib/images'
+import type { SlugRedirect } from '@/lib/slug'
+
+export type Identified = { id: number }
+
+export type ConflictMode = 'skip' | 'update'
+
+export type UpsertResult<T> = {
+  record: T
+  created: boolean
+}
+
+export interface Collection<T extends Identified> {
+  list(): Promise<T[]>
+  get(id: number): Promise<T | null>
+  findBy<K extends keyof T>(field: K, value: T[K]): Promise<T | null>
+  insert(records: Omit<T, 'id'>[]): Promise<T[]>
+  update(patches: Array<{ id: number; changes: Partial<T> }>): Promise<Array<T | null>>
+  /** Insert or update by a unique field; 'skip' leaves existing records untouched */
+  upsert<K extends keyof T>(records: Omit<T, 'id'>[], key: K, onConflict: ConflictMode): Promise<UpsertResult<T>[]>
+  remove(ids: number[]): Promise<number>
+  /** Drop every record and store the given ones instead, ids restart at 1 */
+  replaceAll(records: Omit<T, 'id'>[]): Promise<T[]>
+  /** Drop every record and store the given ones with their own ids (restores) */
+  load(records: T[]): Promise<T[]>
+}
+
+/**
+ * A collection inside StorageBackend.transaction: the same operations,
+ * synchronous, and reads see the transaction's own writes
+ */
+export interface CollectionWriter<T extends Identified> {
+  list(): T[]
+  get(id: number): T | null
+  findBy<K extends keyof T>(field: K, value: T[K]): T | null
+  insert(records: Omit<T, 'id'>[]): T[]
+  update(patches: Array<{ id: number; changes: Partial<T> }>): Array<T | null>
+  upsert<K extends keyof T>(records: Omit<T, 'id'>[], key: K, onConflict: ConflictMode): UpsertResult<T>[]
+  remove(ids: number[]): number
+  replaceAll(records: Omit<T, 'id'>[]): T[]
+  load(records: T[]): T[]
+}
+
+export interface StorageTransaction {
+  images: CollectionWriter<ImageData>
+  albums: CollectionWriter<Album>
+  redirects: CollectionWriter<SlugRedirect>
+  getMeta<V = unknown>(key: string): V | undefined
+  setMeta(key: string, value: unknown): void
+}
+
+/** Identifies the current state of the store; changes on every write */
+export type Revision = {
+  tag: string
+  modified: Date
+}
+
+export interface StorageBackend {
+  readonly name: string
+  images: Collection<ImageData>
+  albums: Collection<Album>
+  /** Append-only audit trail (lib/audit) */
+  events: Collection<AuditEvent>
+  /** Old image slugs → current ones (lib/slug) */
+  redirects: Collection<SlugRedirect>
+  /** Small JSON values stored alongside the data (schemaVersion, ...) */
+  getMeta<V = unknown>(key: string): Promise<V | undefined>
+  setMeta(key: string, value: unknown): Promise<void>
+  /**
+   * Run fn under the store's write lock — the JSON file lock, an SQLite
+   * transaction. It reads the latest data, and its writes are stored
+   * together, or not at all when it throws. fn must not await: nothing else
+   * can write in between. Audit events are not part of it.
+   */
+  transaction<R>(fn: (tx: StorageTransaction) => R): Promise<R>
+  /** Cheap change detection for caches — no records are read */
+  revision(): Promise<Revision>
+}
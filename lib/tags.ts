@@ -0,0 +1,49 @@
+/**
+ * Free-form image tags
+ *
+ * Tags are stored lowercased with spaces turned into dashes ("Đà Lạt" →
+ * "đà-lạt"), so "#Summer", "summer" and " SUMMER " are the same tag.
+ * Client-safe: the gallery page and modal use tagHref for chip links.
+ */
+import type { ImageData } from '@/lib/images'
+
+/** 'all' = image has every tag (AND), 'any' = at least one (OR) */
+export type TagMatch = 'all' | 'any'
+
+export type TagCount = {
+  tag: string
+  count: number
+}
+
+const MAX_TAG_LENGTH = 40
+
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH)
+}
+
+/**
+ * Clean a tag list from user input — an array or a comma-separated string
+ */
+export function normalizeTags(input: unknown): string[] {
+  const raw = Array.isArray(input) ? input : typeof input === 'string' ? input.split(',') : []
+  const tags = raw.filter((t): t is string => typeof t === 'string').map(normalizeTag).filter(Boolean)
+  return Array.from(new Set(tags))
+}
+
+export function matchesTags(image: ImageData, tags: string[], match: TagMatch = 'all'): boolean {
+  if (tags.length === 0) return true
+  const own = image.tags || []
+  return match === 'any'
+    ? tags.some(tag => own.includes(tag))
+    : tags.every(tag => own.includes(tag))
+}
+
+/** Gallery view filtered by one tag */
+export function tagHref(tag: string): string {
+  return `/?tag=${encodeURIComponent(tag)}`
+}
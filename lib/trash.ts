@@ -0,0 +1,156 @@
+/**
+ * Trash bin — soft-deleted images
+ *
+ * Deleting an image from the admin only sets `deleted_at`; trashed images are
+ * hidden from /api/images but keep their record and files, so they can be
+ * restored. Purging removes the record and only then the files in
+ * public/uploads. Images trashed longer than TRASH_RETENTION_DAYS (default 30,
+ * 0 disables) are purged automatically whenever the trash is touched, after a
+ * snapshot.
+ */
+import fs from 'fs'
+import { imageEvent, recordEvents, SYSTEM_CONTEXT, type AuditContext } from '@/lib/audit'
+import type { ImageData } from '@/lib/images'
+import { createSnapshot } from '@/lib/snapshots'
+import { getStorage } from '@/lib/storage'
+import { uploadFilesOf } from '@/lib/uploads'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type TrashedImage = ImageData & {
+  deleted_at: string
+  purge_at: string | null  // When auto-purge will remove it, null if disabled
+}
+
+function retentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS ?? 30)
+  return Number.isFinite(days) && days >= 0 ? days : 30
+}
+
+function purgeDate(deletedAt: string): string | null {
+  const days = retentionDays()
+  return days > 0 ? new Date(new Date(deletedAt).getTime() + days * DAY_MS).toISOString() : null
+}
+
+export function isTrashed(image: ImageData): boolean {
+  return Boolean(image.deleted_at)
+}
+
+/**
+ * Move images to the trash. Returns the ids that were actually trashed
+ * (unknown or already-trashed ids are skipped).
+ */
+export async function trashImages(ids: number[], context: AuditContext = SYSTEM_CONTEXT): Promise<number[]> {
+  const now = new Date().toISOString()
+  const { targets, trashed } = await getStorage().transaction(tx => {
+    const targets = tx.images.list().filter(img => ids.includes(img.id) && !isTrashed(img))
+    const trashed = tx.images.update(targets.map(img => ({
+      id: img.id,
+      changes: { deleted_at: now, updated_at: now },
+    })))
+    return { targets, trashed }
+  })
+  if (targets.length === 0) return []
+
+  await recordEvents(context, targets.map((img, i) => imageEvent('delete', img, trashed[i] || img)))
+  await purgeExpiredTrash()
+  return targets.map(img => img.id)
+}
+
+/**
+ * Take images back out of the trash
+ */
+export async function restoreImages(ids: number[], context: AuditContext = SYSTEM_CONTEXT): Promise<ImageData[]> {
+  const now = new Date().toISOString()
+  const { targets, restored } = await getStorage().transaction(tx => {
+    const targets = tx.images.list().filter(img => ids.includes(img.id) && isTrashed(img))
+    const restored = tx.images.update(targets.map(img => ({
+      id: img.id,
+      changes: { deleted_at: undefined, updated_at: now },
+    })))
+    return { targets, restored }
+  })
+  if (targets.length === 0) return []
+
+  await recordEvents(context, targets.map((img, i) => imageEvent('restore', img, restored[i] || img)))
+  return restored.filter((img): img is ImageData => img !== null)
+}
+
+/**
+ * Trashed images, most recently deleted first
+ */
+export async function listTrash(): Promise<TrashedImage[]> {
+  await purgeExpiredTrash()
+  const images = await getStorage().images.list()
+  return images
+    .filter(isTrashed)
+    .map(img => ({ ...img, deleted_at: img.deleted_at as string, purge_at: purgeDate(img.deleted_at as string) }))
+    .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+}
+
+/**
+ * Upload files of purged images still to be deleted (meta pendingFileRemovals).
+ * They are recorded in the same write that removes the records and dropped
+ * from the list once deleted, so a purge cut short is finished by the next one.
+ */
+const PENDING_FILES_KEY = 'pendingFileRemovals'
+
+async function removePendingFiles(): Promise<void> {
+  const storage = getStorage()
+  const files = await storage.getMeta<string[]>(PENDING_FILES_KEY)
+  if (!files || files.length === 0) return
+
+  for (const file of files) {
+    try {
+      fs.rmSync(file, { force: true })
+    } catch (error) {
+      console.error('File deletion error:', file, error)
+    }
+  }
+  // Another purge may have added files meanwhile
+  await storage.transaction(tx => {
+    const pending = tx.getMeta<string[]>(PENDING_FILES_KEY) || []
+    tx.setMeta(PENDING_FILES_KEY, pending.filter(file => !files.includes(file)))
+  })
+}
+
+/**
+ * Permanently delete trashed images and their files. Images that are not in
+ * the trash are left alone, so a purge can never bypass the trash.
+ * Without ids the whole trash is emptied.
+ */
+export async function purgeTrash(ids?: number[], context: AuditContext = SYSTEM_CONTEXT): Promise<number[]> {
+  const targets = await getStorage().transaction(tx => {
+    const targets = tx.images.list().filter(img => isTrashed(img) && (!ids || ids.includes(img.id)))
+    if (targets.length === 0) return targets
+    tx.images.remove(targets.map(img => img.id))
+    const pending = tx.getMeta<string[]>(PENDING_FILES_KEY) || []
+    tx.setMeta(PENDING_FILES_KEY, [...pending, ...targets.flatMap(uploadFilesOf)])
+    return targets
+  })
+  // Files go only after the records are gone, so a failed write keeps both
+  await removePendingFiles()
+  if (targets.length === 0) return []
+
+  await recordEvents(context, targets.map(img => ({ image_id: img.id, slug: img.slug, action: 'purge' as const, changes: {} })))
+  return targets.map(img => img.id)
+}
+
+/**
+ * Purge images that have been in the trash longer than the retention period,
+ * after a snapshot of the gallery like every other destructive operation
+ */
+export async function purgeExpiredTrash(): Promise<number[]> {
+  const days = retentionDays()
+  if (days === 0) return []
+
+  const cutoff = Date.now() - days * DAY_MS
+  const images = await getStorage().images.list()
+  const expired = images
+    .filter(img => isTrashed(img) && new Date(img.deleted_at as string).getTime() < cutoff)
+    .map(img => img.id)
+  if (expired.length === 0) return []
+
+  await createSnapshot('purge-expired')
+  return purgeTrash(expired)
+}
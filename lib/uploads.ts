@@ -0,0 +1,38 @@
+/**
+ * Files in public/uploads that belong to an image record
+ */
+import fs from 'fs'
+import path from 'path'
+import type { ImageData } from '@/lib/images'
+
+export const UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads')
+
+/** File path of an /uploads/ URL; null for remote URLs and paths outside public/uploads */
+export function uploadPath(url: string): string | null {
+  if (!url.startsWith('/uploads/')) return null
+  const file = path.join(process.cwd(), 'public', decodeURIComponent(url))
+  return file.startsWith(UPLOAD_DIR + path.sep) ? file : null
+}
+
+/** Local paths of the image's uploaded files; remote (Locket CDN) URLs are skipped */
+export function uploadFilesOf(image: ImageData): string[] {
+  const variantUrls = (image.variants || []).map(variant => variant.url)
+  return [image.image_url, image.thumbnail_url, image.video_url, image.video?.original_url, ...variantUrls]
+    .map(url => (typeof url === 'string' ? uploadPath(url) : null))
+    .filter((file): file is string => file !== null)
+}
+
+/**
+ * Bytes behind a media URL — an /uploads/ file or a remote (Locket CDN)
+ * URL. Throws when it can't be read.
+ */
+export async function readMedia(url: string, timeoutMs: number): Promise<Buffer> {
+  if (!/^https?:\/\//i.test(url)) {
+    const file = uploadPath(url)
+    if (!file) throw new Error('Not an uploaded file')
+    return fs.promises.readFile(file)
+  }
+  const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) })
+  if (!response.ok) throw new Error(`Download failed (${response.status})`)
+  return Buffer.from(await response.arrayBuffer())
+}
@@ -0,0 +1,245 @@
+/**
+ * Video uploads — poster frame, metadata and an optional H.264 rendition
+ *
+ * Uses the ffmpeg binary (FFMPEG_PATH, default `ffmpeg` on PATH). An
+ * uploaded video is published without its container metadata (phones store
+ * the recording location there), next to its poster frame, which becomes
+ * the record's still image: thumbnail, derivatives and analysis work on it
+ * like on any upload. Duration and frame size come from the MP4/QuickTime headers
+ * (lib/probe), or from ffprobe (FFPROBE_PATH) for other containers. With
+ * transcoding on (VIDEO_TRANSCODE=true, or the upload's `transcode` field) a
+ * compressed H.264/AAC MP4 at most 1920px on the long side is played
+ * instead, and the original is kept as `video.original_url`.
+ */
+import { execFile } from 'child_process'
+import fs from 'fs'
+import path from 'path'
+import type { VideoMetadata } from '@/lib/images'
+import { readMp4 } from '@/lib/probe'
+
+const PROBE_TIMEOUT_MS = 30_000
+const POSTER_TIMEOUT_MS = 60_000
+const TRANSCODE_TIMEOUT_MS = 10 * 60_000
+const MAX_RENDITION_SIZE = 1920
+const MAX_MOVIE_HEADER_SIZE = 64 * 1024 * 1024
+
+const VIDEO_EXTENSIONS: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+}
+
+export type ProcessedVideo = {
+  posterFilename: string  // In the upload dir — the record's still image
+  video_url: string
+  video: Omit<VideoMetadata, 'poster_url'>
+  width: number
+  height: number
+  recorded_at?: string
+  files: string[]         // Everything written, the published original first
+}
+
+function ffmpegPath(): string {
+  return process.env.FFMPEG_PATH || 'ffmpeg'
+}
+
+function ffprobePath(): string {
+  return process.env.FFPROBE_PATH || 'ffprobe'
+}
+
+function run(command: string, args: string[], timeout: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) reject(new Error(`${path.basename(command)} failed: ${stderr.trim().split('\n').pop() || error.message}`))
+      else resolve(stdout)
+    })
+  })
+}
+
+/** Transcode unless the upload says otherwise — VIDEO_TRANSCODE, off by default */
+export function transcodeByDefault(): boolean {
+  return process.env.VIDEO_TRANSCODE === 'true'
+}
+
+export function isVideoFile(mimetype: string | null | undefined, filename: string): boolean {
+  if (mimetype?.startsWith('video/')) return true
+  return path.extname(filename).slice(1).toLowerCase() in VIDEO_EXTENSIONS
+}
+
+/** Whether the ffmpeg binary can be run */
+export async function ffmpegAvailable(): Promise<boolean> {
+  try {
+    await run(ffmpegPath(), ['-version'], PROBE_TIMEOUT_MS)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The ftyp and moov boxes of an MP4/QuickTime file, read without loading
+ * the media data; null when the file has no moov box
+ */
+async function readMovieHeader(file: string): Promise<Buffer | null> {
+  const handle = await fs.promises.open(file, 'r')
+  try {
+    const { size } = await handle.stat()
+    const header = Buffer.alloc(16)
+    const boxes: Buffer[] = []
+    for (let offset = 0; offset + 8 <= size;) {
+      await handle.read(header, 0, 16, offset)
+      let boxSize = header.readUInt32BE(0)
+      if (boxSize === 1) boxSize = Number(header.readBigUInt64BE(8))
+      else if (boxSize === 0) boxSize = size - offset
+      if (boxSize < 8 || offset + boxSize > size) break
+
+      const type = header.toString('latin1', 4, 8)
+      if ((type === 'ftyp' || type === 'moov') && boxSize <= MAX_MOVIE_HEADER_SIZE) {
+        const box = Buffer.alloc(boxSize)
+        await handle.read(box, 0, boxSize, offset)
+        boxes.push(box)
+        if (type === 'moov') return Buffer.concat(boxes)
+      }
+      offset += boxSize
+    }
+    return null
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * Duration, displayed frame size and MIME type of a video file; null when
+ * neither the MP4 reader nor ffprobe can make sense of it
+ */
+export async function probeVideoFile(
+  file: string
+): Promise<{ duration: number; width: number; height: number; mime_type: string; recorded_at?: string } | null> {
+  const movieHeader = await readMovieHeader(file)
+  const mp4 = movieHeader && readMp4(movieHeader)
+  if (mp4?.width && mp4.height) {
+    return { duration: mp4.duration, width: mp4.width, height: mp4.height, mime_type: mp4.mime_type, recorded_at: mp4.created_at }
+  }
+
+  try {
+    const output = JSON.parse(await run(ffprobePath(), [
+      '-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', file,
+    ], PROBE_TIMEOUT_MS))
+    const stream = (output.streams || []).find((s: any) => s.codec_type === 'video')
+    if (!stream?.width || !stream?.height) return null
+    // Phones record sideways and store the turn as rotation metadata
+    const rotation = Math.abs(Number(stream.tags?.rotate ?? stream.side_data_list?.find((d: any) => 'rotation' in d)?.rotation ?? 0))
+    const sideways = rotation % 180 === 90
+    const extension = path.extname(file).slice(1).toLowerCase()
+    return {
+      duration: Number(output.format?.duration) || 0,
+      width: sideways ? stream.height : stream.width,
+      height: sideways ? stream.width : stream.height,
+      mime_type: VIDEO_EXTENSIONS[extension] || 'application/octet-stream',
+      recorded_at: output.format?.tags?.creation_time,
+    }
+  } catch (error: any) {
+    console.error('ffprobe error:', error?.message || error)
+    return null
+  }
+}
+
+/** Same streams, copied as-is, without the container and stream metadata */
+async function stripVideoMetadata(file: string, output: string): Promise<void> {
+  await run(ffmpegPath(), [
+    '-hide_banner', '-loglevel', 'error', '-y', '-i', file,
+    '-map_metadata', '-1', '-c', 'copy', output,
+  ], TRANSCODE_TIMEOUT_MS)
+}
+
+/** One frame as JPEG, a second in (or halfway through a shorter video) */
+async function extractPoster(file: string, output: string, duration: number): Promise<void> {
+  const at = Math.min(1, duration / 2)
+  await run(ffmpegPath(), [
+    '-hide_banner', '-loglevel', 'error', '-y',
+    '-ss', String(at), '-i', file,
+    '-frames:v', '1', '-q:v', '2', output,
+  ], POSTER_TIMEOUT_MS)
+}
+
+/** H.264/AAC MP4 for every browser, upright, fast start */
+async function transcode(file: string, output: string): Promise<void> {
+  await run(ffmpegPath(), [
+    '-hide_banner', '-loglevel', 'error', '-y', '-i', file,
+    '-vf', `scale=w='min(iw,${MAX_RENDITION_SIZE})':h='min(ih,${MAX_RENDITION_SIZE})':force_original_aspect_ratio=decrease:force_divisible_by=2`,
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '26', '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac', '-b:a', '128k',
+    '-movflags', '+faststart', output,
+  ], TRANSCODE_TIMEOUT_MS)
+}
+
+/**
+ * Publish a staged video into `dir` as `filename`, stripped of metadata,
+ * with its poster, metadata and (optionally) a rendition. The staged file
+ * is left for the caller. Returns null when it isn't a readable video;
+ * throws when ffmpeg fails, after removing whatever it wrote.
+ */
+export async function processVideoUpload(
+  source: string,
+  dir: string,
+  filename: string,
+  options: { transcode: boolean }
+): Promise<ProcessedVideo | null> {
+  // Probed before stripping — the recording time is kept in the record
+  const info = await probeVideoFile(source)
+  if (!info) return null
+
+  const base = filename.replace(/\.[^/.]+$/, '')
+  const file = path.join(dir, filename)
+  const files: string[] = [file]
+
+  try {
+    await stripVideoMetadata(source, file)
+
+    const posterFilename = `${base}-poster.jpg`
+    files.push(path.join(dir, posterFilename))
+    await extractPoster(file, files[1], info.duration)
+
+    const original = {
+      url: `/uploads/${filename}`,
+      size: fs.statSync(file).size,
+      mime_type: info.mime_type,
+    }
+    let played = original
+    let [width, height] = [info.width, info.height]
+
+    if (options.transcode) {
+      const renditionFilename = `${base}-h264.mp4`
+      const rendition = path.join(dir, renditionFilename)
+      files.push(rendition)
+      await transcode(file, rendition)
+      played = { url: `/uploads/${renditionFilename}`, size: fs.statSync(rendition).size, mime_type: 'video/mp4' }
+      // Smaller when scaled down; the aspect ratio stays
+      const renditionHeader = await readMovieHeader(rendition)
+      const scaled = renditionHeader && readMp4(renditionHeader)
+      if (scaled?.width && scaled.height) [width, height] = [scaled.width, scaled.height]
+    }
+
+    return {
+      posterFilename,
+      video_url: played.url,
+      video: {
+        duration: info.duration || undefined,
+        width,
+        height,
+        size: played.size,
+        mime_type: played.mime_type,
+        original_url: played === original ? undefined : original.url,
+      },
+      width,
+      height,
+      recorded_at: info.recorded_at,
+      files,
+    }
+  } catch (error) {
+    for (const written of files) fs.rmSync(written, { force: true })
+    throw error
+  }
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useRouter } from 'next/router'
+import { LayoutGroup } from 'framer-motion'
+import type { ImageData } from '@/lib/images'
+import type { AlbumSummary } from '@/lib/albums'
+import Navbar from '@/components/Navbar'
+import ImageCard from '@/components/ImageCard'
+import ImageModal from '@/components/ImageModal'
+
+type AlbumPageData = AlbumSummary & { images: ImageData[] }
+
+/**
+ * Album — same grid and modal as Home, limited to one album's images
+ * in album order. The open image is kept in ?image=<slug>.
+ */
+export default function AlbumPage() {
+  const router = useRouter()
+  const slug = router.query.slug as string | undefined
+  const [album, setAlbum] = useState<AlbumPageData | null>(null)
+  const [selectedImage, setSelectedImage] = useState<ImageData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+
+  useEffect(() => {
+    if (!slug) return
+    const fetchAlbum = async () => {
+      try {
+        setLoading(true)
+        const res = await fetch(`/api/albums?slug=${encodeURIComponent(slug)}`)
+        if (res.ok) {
+          setAlbum(await res.json())
+          setNotFound(false)
+        } else {
+          setNotFound(true)
+        }
+      } catch (err) {
+        console.error('Failed to fetch album:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchAlbum()
+  }, [slug])
+
+  const images = useMemo(() => album?.images ?? [], [album])
+
+  // Sync modal state with URL
+  const imageSlug = typeof router.query.image === 'string' ? router.query.image : undefined
+
+  useEffect(() => {
+    if (!imageSlug) setSelectedImage(null)
+  }, [imageSlug])
+
+  useEffect(() => {
+    const found = imageSlug ? images.find(img => img.slug === imageSlug) : undefined
+    if (found) setSelectedImage(current => (current?.slug === found.slug ? current : found))
+  }, [imageSlug, images])
+
+  const showImage = useCallback((image: ImageData) => {
+    setSelectedImage(image)
+    router.push(
+      { pathname: '/a/[slug]', query: { slug, image: image.slug } },
+      undefined,
+      { shallow: true, scroll: false }
+    )
+  }, [router, slug])
+
+  const handleImageClick = useCallback((e: React.MouseEvent, image: ImageData) => {
+    e.preventDefault()
+    showImage(image)
+  }, [showImage])
+
+  const handleCloseModal = useCallback(() => {
+    setSelectedImage(null)
+    router.push({ pathname: '/a/[slug]', query: { slug } }, undefined, { shallow: true, scroll: false })
+  }, [router, slug])
+
+  return (
+    <LayoutGroup>
+      <Navbar />
+
+      <main className="min-h-screen pt-14 sm:pt-20 pb-8 sm:pb-16 px-2.5 sm:px-8 md:px-12 lg:px-16">
+        <div className="max-w-[1400px] mx-auto">
+          {loading ? (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-x-2 gap-y-0 sm:gap-x-4 sm:gap-y-1">
+              {Array.from({ length: 8 }).map((_, i) => (
+                <div key={i} className="flex flex-col">
+                  <div className="skeleton" style={{ aspectRatio: '1 / 1' }} />
+                  <div className="pt-1.5 pb-2.5 sm:pt-2.5 sm:pb-4 flex justify-center min-h-[28px] sm:min-h-[36px]">
+                    <div className="skeleton h-2 w-20 rounded-sm" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : notFound || !album ? (
+            <div className="flex flex-col items-center justify-center min-h-[70vh] text-center">
+              <p className="text-[10px] tracking-[0.4em] text-neutral-300 uppercase">
+                album not found
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Album header */}
+              <div className="text-center mb-8 sm:mb-12">
+                <h1 className="text-[11px] sm:text-xs tracking-[0.3em] uppercase text-black">
+                  {album.title}
+                </h1>
+                {album.description && (
+                  <p className="mt-2 text-[11px] text-neutral-400 max-w-md mx-auto">
+                    {album.description}
+                  </p>
+                )}
+                <p className="mt-2 text-[10px] tracking-[0.2em] text-neutral-300 uppercase">
+                  {album.image_count} moments
+                </p>
+              </div>
+
+              {images.length > 0 ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-x-2 gap-y-0 sm:gap-x-4 sm:gap-y-1">
+                  {images.map((image) => (
+                    <a
+                      key={image.id}
+                      href={`/p/${image.slug}`}
+                      onClick={(e) => handleImageClick(e, image)}
+                    >
+                      <ImageCard
+                        image={image}
+                        layoutId={`image-${image.id}`}
+                        isSelected={selectedImage?.id === image.id}
+                      />
+                    </a>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex flex-col items-center justify-center min-h-[50vh] text-center">
+                  <p className="text-[10px] tracking-[0.4em] text-neutral-300 uppercase">
+                    no moments yet
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <ImageModal
+        image={selectedImage}
+        onClose={handleCloseModal}
+        images={images}
+        onNavigate={showImage}
+      />
+    </LayoutGroup>
+  )
+}
@@ -3,6 +3,9 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/router'
 import { motion, AnimatePresence } from 'framer-motion'
+import { EXIF_FIELDS, SORT_MODES, VISIBILITIES, type ExifField, type ExifSettings, type ImageData, type SortMode, type Visibility } from '@/lib/images'
+import type { AlbumSummary } from '@/lib/albums'
+import type { DuplicateGroup, DuplicateResolution } from '@/lib/duplicates'
 
 /**
  * Moment interface — matches ACTUAL API response from getMomentV2 (camelCase)
@@ -24,6 +27,34 @@ interface LocketMoment {
   date: string
 }
 
+const VISIBILITY_LABELS: Record<Visibility, string> = {
+  public: 'Công khai',
+  unlisted: 'Không công khai',
+  private: 'Riêng tư',
+}
+
+const SORT_MODE_LABELS: Record<SortMode, string> = {
+  chronological: 'Mới nhất trước',
+  manual: 'Thủ công',
+  pinned: 'Ghim trước, rồi mới nhất',
+}
+
+const EXIF_FIELD_LABELS: Record<ExifField, string> = {
+  taken_at: 'Thời điểm chụp',
+  camera: 'Máy ảnh',
+  lens: 'Ống kính',
+  exposure: 'Thông số phơi sáng',
+  orientation: 'Hướng ảnh',
+  location: 'Vị trí GPS',
+}
+
+function adminHeaders() {
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${localStorage.getItem('admin_token') || ''}`,
+  }
+}
+
 export default function LocketDashboard() {
   const router = useRouter()
   const [moments, setMoments] = useState<LocketMoment[]>([])
@@ -34,6 +65,17 @@ export default function LocketDashboard() {
   const [resetting, setResetting] = useState(false)
   const [syncResult, setSyncResult] = useState<string>('')
   const [selectedMoment, setSelectedMoment] = useState<LocketMoment | null>(null)
+  // Gallery records by Locket moment id — visibility, pins and slugs live there
+  const [galleryImages, setGalleryImages] = useState<Map<string, ImageData>>(new Map())
+  const [syncVisibility, setSyncVisibility] = useState<Visibility | ''>('')
+  const [selectMode, setSelectMode] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
+  const [updating, setUpdating] = useState(false)
+  const [sortMode, setSortMode] = useState<SortMode | ''>('')
+  const [exifSettings, setExifSettings] = useState<ExifSettings | null>(null)
+  const [showExif, setShowExif] = useState(false)
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[] | null>(null)
+  const [albums, setAlbums] = useState<AlbumSummary[]>([])
 
   const getLocketCredentials = useCallback(() => {
     return {
@@ -42,19 +84,15 @@ export default function LocketDashboard() {
     }
   }, [])
 
-  useEffect(() => {
-    const adminToken = localStorage.getItem('admin_token')
-    const locketToken = localStorage.getItem('locket_token')
-    const locketUser = localStorage.getItem('locket_user')
-
-    if (!adminToken) { router.push('/admin'); return }
-    if (!locketToken) { router.push('/admin/locket'); return }
-    if (locketUser) { try { setUser(JSON.parse(locketUser)) } catch { } }
-
-    fetchLocketMoments()
+  const logout = useCallback(() => {
+    localStorage.removeItem('locket_token')
+    localStorage.removeItem('locket_refresh_token')
+    localStorage.removeItem('locket_local_id')
+    localStorage.removeItem('locket_user')
+    router.push('/admin/locket')
   }, [router])
 
-  const fetchLocketMoments = async () => {
+  const fetchLocketMoments = useCallback(async () => {
     try {
       setLoading(true)
       setError('')
@@ -86,6 +124,248 @@ export default function LocketDashboard() {
     } finally {
       setLoading(false)
     }
+  }, [getLocketCredentials, logout])
+
+  const fetchGalleryImages = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/images', { headers: adminHeaders() })
+      if (!response.ok) return
+      const result = await response.json()
+      setGalleryImages(new Map((result.images || [])
+        .filter((img: ImageData) => img.locket_moment_id)
+        .map((img: ImageData) => [img.locket_moment_id, img])))
+    } catch (err) {
+      console.error('Fetch gallery images error:', err)
+    }
+  }, [])
+
+  const fetchSortMode = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/settings', { headers: adminHeaders() })
+      if (!response.ok) return
+      const result = await response.json()
+      setSortMode(result.sortMode)
+      setExifSettings(result.exif)
+    } catch (err) {
+      console.error('Fetch settings error:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    const adminToken = localStorage.getItem('admin_token')
+    const locketToken = localStorage.getItem('locket_token')
+    const locketUser = localStorage.getItem('locket_user')
+
+    if (!adminToken) { router.push('/admin'); return }
+    if (!locketToken) { router.push('/admin/locket'); return }
+    if (locketUser) { try { setUser(JSON.parse(locketUser)) } catch { } }
+
+    fetchLocketMoments()
+    fetchGalleryImages()
+    fetchSortMode()
+    fetch('/api/albums')
+      .then(res => (res.ok ? res.json() : []))
+      .then(setAlbums)
+      .catch(err => console.error('Fetch albums error:', err))
+  }, [router, fetchLocketMoments, fetchGalleryImages, fetchSortMode])
+
+  const changeSortMode = async (mode: SortMode) => {
+    try {
+      const response = await fetch('/api/admin/settings', {
+        method: 'PUT',
+        headers: adminHeaders(),
+        body: JSON.stringify({ sortMode: mode }),
+      })
+      const result = await response.json()
+      if (response.ok) {
+        setSortMode(result.sortMode)
+        setSyncResult(`Gallery sắp xếp: ${SORT_MODE_LABELS[mode]}`)
+      } else {
+        setSyncResult(result.error || 'Không thể đổi cách sắp xếp')
+      }
+    } catch (err) {
+      setSyncResult('Lỗi khi đổi cách sắp xếp')
+      console.error('Sort mode error:', err)
+    }
+  }
+
+  const changeExifSettings = async (changes: Partial<ExifSettings>) => {
+    try {
+      const response = await fetch('/api/admin/settings', {
+        method: 'PUT',
+        headers: adminHeaders(),
+        body: JSON.stringify({ exif: changes }),
+      })
+      const result = await response.json()
+      if (response.ok) {
+        setExifSettings(result.exif)
+      } else {
+        setSyncResult(result.error || 'Không thể đổi cài đặt EXIF')
+      }
+    } catch (err) {
+      setSyncResult('Lỗi khi đổi cài đặt EXIF')
+      console.error('EXIF settings error:', err)
+    }
+  }
+
+  /** Toggle the near-duplicate report, loading it fresh each time it opens */
+  const toggleDuplicates = async () => {
+    if (duplicateGroups) return setDuplicateGroups(null)
+    try {
+      const response = await fetch('/api/admin/duplicates', { headers: adminHeaders() })
+      const result = await response.json()
+      if (!response.ok) return setSyncResult(result.error || 'Không thể tải danh sách ảnh trùng')
+      setDuplicateGroups(result.groups)
+      const pending = result.pendingCount ? ` (${result.pendingCount} ảnh chưa được phân tích)` : ''
+      setSyncResult(`${result.groups.length} nhóm ảnh trùng${pending}`)
+    } catch (err) {
+      setSyncResult('Lỗi khi tải danh sách ảnh trùng')
+      console.error('Duplicates error:', err)
+    }
+  }
+
+  /** Keep one image of a group; the rest go to the trash (merged into it first for 'merge') */
+  const resolveDuplicates = async (group: DuplicateGroup, keep: ImageData, action: DuplicateResolution) => {
+    const remove = group.images.filter(img => img.id !== keep.id).map(img => img.id)
+    const verb = action === 'merge' ? 'Gộp' : 'Xoá'
+    if (!confirm(`${verb} ${remove.length} ảnh còn lại, giữ "${keep.title}"?`)) return
+    try {
+      const response = await fetch('/api/admin/duplicates', {
+        method: 'POST',
+        headers: adminHeaders(),
+        body: JSON.stringify({ keep: keep.id, remove, action }),
+      })
+      const result = await response.json()
+      if (!response.ok) return setSyncResult(result.error || 'Không thể xử lý ảnh trùng')
+      setSyncResult(action === 'merge'
+        ? `Đã gộp ${result.trashedIds.length} ảnh vào "${keep.title}"`
+        : `Đã xoá ${result.trashedIds.length} ảnh trùng với "${keep.title}"`)
+      setDuplicateGroups(prev => prev && prev.filter(g => g !== group))
+      await fetchGalleryImages()
+    } catch (err) {
+      setSyncResult('Lỗi khi xử lý ảnh trùng')
+      console.error('Resolve duplicates error:', err)
+    }
+  }
+
+  const togglePinned = async (image: ImageData) => {
+    try {
+      const response = await fetch('/api/admin/images', {
+        method: 'PUT',
+        headers: adminHeaders(),
+        body: JSON.stringify({ id: image.id, pinned: !image.pinned }),
+      })
+      if (response.ok) {
+        await fetchGalleryImages()
+      } else {
+        setSyncResult((await response.json()).error || 'Không thể ghim ảnh')
+      }
+    } catch (err) {
+      setSyncResult('Lỗi khi ghim ảnh')
+      console.error('Pin error:', err)
+    }
+  }
+
+  const renameSlug = async (image: ImageData) => {
+    const slug = prompt('Slug mới (link cũ vẫn hoạt động):', image.slug)
+    if (!slug || slug === image.slug) return
+    try {
+      const response = await fetch('/api/admin/images', {
+        method: 'PUT',
+        headers: adminHeaders(),
+        body: JSON.stringify({ id: image.id, slug }),
+      })
+      const result = await response.json()
+      if (response.ok) {
+        setSyncResult(`Đã đổi slug thành /p/${result.slug}`)
+        await fetchGalleryImages()
+      } else {
+        setSyncResult(result.error || 'Không thể đổi slug')
+      }
+    } catch (err) {
+      setSyncResult('Lỗi khi đổi slug')
+      console.error('Slug error:', err)
+    }
+  }
+
+  const galleryImageOf = (moment: LocketMoment) => galleryImages.get(moment.id)
+
+  const changeVisibility = async (ids: number[], visibility: Visibility) => {
+    if (ids.length === 0) return
+    try {
+      setUpdating(true)
+      const response = await fetch('/api/admin/visibility', {
+        method: 'POST',
+        headers: adminHeaders(),
+        body: JSON.stringify({ ids, visibility }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        setSyncResult(`Đã chuyển ${result.updatedCount} ảnh sang "${VISIBILITY_LABELS[visibility]}"`)
+        setSelectedIds(new Set())
+        await fetchGalleryImages()
+      } else {
+        setSyncResult(result.error || 'Không thể đổi chế độ hiển thị')
+      }
+    } catch (err) {
+      setSyncResult('Lỗi khi đổi chế độ hiển thị')
+      console.error('Visibility error:', err)
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  /** One operation on every selected image via /api/admin/bulk (snapshot taken first) */
+  const runBulk = async (operation: Record<string, unknown>) => {
+    const ids = Array.from(selectedIds)
+    if (ids.length === 0) return
+    try {
+      setUpdating(true)
+      const response = await fetch('/api/admin/bulk', {
+        method: 'POST',
+        headers: adminHeaders(),
+        body: JSON.stringify({ ids, ...operation }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        const failed = result.failedCount ? `, ${result.failedCount} lỗi` : ''
+        setSyncResult(`Đã thay đổi ${result.changedCount}/${ids.length} ảnh${failed}`)
+        setSelectedIds(new Set())
+        await fetchGalleryImages()
+      } else {
+        setSyncResult(result.error || 'Thao tác hàng loạt thất bại')
+      }
+    } catch (err) {
+      setSyncResult('Lỗi khi thao tác hàng loạt')
+      console.error('Bulk error:', err)
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const bulkTags = (field: 'add' | 'remove') => {
+    const input = prompt(field === 'add' ? 'Thêm tag (phân tách bằng dấu phẩy):' : 'Bỏ tag (phân tách bằng dấu phẩy):')
+    if (input) runBulk({ op: 'tags', [field]: input.split(',') })
+  }
+
+  const bulkCaption = () => {
+    const caption = prompt('Chú thích mới (để trống để xoá):')
+    if (caption !== null) runBulk({ op: 'caption', caption })
+  }
+
+  const bulkDelete = () => {
+    if (confirm(`Chuyển ${selectedIds.size} ảnh vào thùng rác?`)) runBulk({ op: 'delete' })
+  }
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
   }
 
   const syncToGallery = async () => {
@@ -101,13 +381,14 @@ export default function LocketDashboard() {
           'x-locket-token': token,
           'x-locket-uid': localId,
         },
-        body: JSON.stringify({ token, localId }),
+        body: JSON.stringify({ token, localId, visibility: syncVisibility || undefined }),
       })
 
       const result = await response.json()
 
       if (response.ok && result.success) {
         setSyncResult(result.message || `Đã đồng bộ ${result.syncedCount} ảnh`)
+        fetchGalleryImages()
       } else {
         setSyncResult(result.message || 'Đồng bộ thất bại')
       }
@@ -120,7 +401,7 @@ export default function LocketDashboard() {
   }
 
   const resetAndSync = async () => {
-    if (!confirm('Reset sẽ xoá toàn bộ dữ liệu cũ và đồng bộ lại từ Locket. Tiếp tục?')) return
+    if (!confirm('Reset sẽ xoá toàn bộ dữ liệu cũ và đồng bộ lại từ Locket (dữ liệu cũ được lưu snapshot, có thể khôi phục). Tiếp tục?')) return
     try {
       setResetting(true)
       setSyncResult('')
@@ -133,13 +414,14 @@ export default function LocketDashboard() {
           'x-locket-token': token,
           'x-locket-uid': localId,
         },
-        body: JSON.stringify({ token, localId }),
+        body: JSON.stringify({ token, localId, visibility: syncVisibility || undefined }),
       })
 
       const result = await response.json()
 
       if (response.ok && result.success) {
         setSyncResult(`✅ ${result.message}`)
+        fetchGalleryImages()
       } else {
         setSyncResult(`❌ ${result.message || 'Reset thất bại'}`)
       }
@@ -151,14 +433,6 @@ export default function LocketDashboard() {
     }
   }
 
-  const logout = () => {
-    localStorage.removeItem('locket_token')
-    localStorage.removeItem('locket_refresh_token')
-    localStorage.removeItem('locket_local_id')
-    localStorage.removeItem('locket_user')
-    router.push('/admin/locket')
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-yeezy-sand">
@@ -192,6 +466,18 @@ export default function LocketDashboard() {
             </div>
 
             <div className="flex items-center gap-2 flex-wrap">
+              <select
+                value={syncVisibility}
+                onChange={e => setSyncVisibility(e.target.value as Visibility | '')}
+                title="Chế độ hiển thị cho ảnh mới đồng bộ"
+                className="px-2 py-2 text-xs bg-white/50 text-yeezy-black border border-yeezy-clay/30"
+              >
+                <option value="">Ảnh mới: mặc định</option>
+                {VISIBILITIES.map(v => (
+                  <option key={v} value={v}>Ảnh mới: {VISIBILITY_LABELS[v]}</option>
+                ))}
+              </select>
+
               <button
                 onClick={syncToGallery}
                 disabled={syncing || resetting || moments.length === 0}
@@ -214,6 +500,53 @@ export default function LocketDashboard() {
                 {resetting ? 'ĐANG RESET...' : 'RESET & ĐỒNG BỘ LẠI'}
               </button>
 
+              {sortMode && (
+                <select
+                  value={sortMode}
+                  onChange={e => changeSortMode(e.target.value as SortMode)}
+                  title="Thứ tự ảnh trên gallery"
+                  className="px-2 py-2 text-xs bg-white/50 text-yeezy-black border border-yeezy-clay/30"
+                >
+                  {SORT_MODES.map(mode => (
+                    <option key={mode} value={mode}>Sắp xếp: {SORT_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              )}
+
+              {exifSettings && (
+                <button
+                  onClick={() => setShowExif(!showExif)}
+                  title="Metadata của ảnh upload"
+                  className={`px-3 py-2 text-xs font-medium border transition-all ${showExif
+                      ? 'bg-yeezy-black text-yeezy-sand border-yeezy-black'
+                      : 'text-yeezy-clay hover:text-yeezy-black border-yeezy-clay/30 hover:border-yeezy-black'
+                    }`}
+                >
+                  EXIF
+                </button>
+              )}
+
+              <button
+                onClick={toggleDuplicates}
+                title="Ảnh gần giống nhau trong gallery"
+                className={`px-3 py-2 text-xs font-medium border transition-all ${duplicateGroups
+                    ? 'bg-yeezy-black text-yeezy-sand border-yeezy-black'
+                    : 'text-yeezy-clay hover:text-yeezy-black border-yeezy-clay/30 hover:border-yeezy-black'
+                  }`}
+              >
+                TRÙNG LẶP
+              </button>
+
+              <button
+                onClick={() => { setSelectMode(!selectMode); setSelectedIds(new Set()) }}
+                className={`px-3 py-2 text-xs font-medium border transition-all ${selectMode
+                    ? 'bg-yeezy-black text-yeezy-sand border-yeezy-black'
+                    : 'text-yeezy-clay hover:text-yeezy-black border-yeezy-clay/30 hover:border-yeezy-black'
+                  }`}
+              >
+                {selectMode ? 'XONG' : 'CHỌN'}
+              </button>
+
               <button
                 onClick={() => router.push('/admin/dashboard')}
                 className="px-3 py-2 text-xs font-medium text-yeezy-clay hover:text-yeezy-black border border-yeezy-clay/30 hover:border-yeezy-black transition-all"
@@ -239,6 +572,115 @@ export default function LocketDashboard() {
               {syncResult}
             </motion.p>
           )}
+
+          {showExif && exifSettings && (
+            <div className="flex items-center gap-x-4 gap-y-2 flex-wrap mt-2 text-xs text-yeezy-black">
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={exifSettings.keepLocation}
+                  onChange={e => changeExifSettings({ keepLocation: e.target.checked })}
+                />
+                Lưu vị trí GPS khi upload
+              </label>
+              <span className="text-yeezy-clay">Công khai:</span>
+              {EXIF_FIELDS.map(field => (
+                <label key={field} className="flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={exifSettings.publicFields.includes(field)}
+                    onChange={e => changeExifSettings({
+                      publicFields: e.target.checked
+                        ? [...exifSettings.publicFields, field]
+                        : exifSettings.publicFields.filter(f => f !== field),
+                    })}
+                  />
+                  {EXIF_FIELD_LABELS[field]}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {duplicateGroups && duplicateGroups.length > 0 && (
+            <div className="mt-2 space-y-2 max-h-80 overflow-y-auto text-xs">
+              {duplicateGroups.map(group => (
+                <div key={group.images[0].id} className="flex gap-2 flex-wrap bg-white/50 p-2">
+                  {group.images.map(img => (
+                    <div key={img.id} className="w-24">
+                      <img src={img.thumbnail_url || img.image_url} alt={img.title} className="w-24 h-24 object-cover" />
+                      <p className="truncate text-yeezy-black mt-1" title={img.title}>{img.title}</p>
+                      <div className="flex gap-1 mt-1">
+                        <button
+                          onClick={() => resolveDuplicates(group, img, 'merge')}
+                          title="Giữ ảnh này, gộp tag, chú thích và album của các ảnh còn lại"
+                          className="px-1.5 py-0.5 border border-yeezy-clay/30 text-yeezy-black hover:border-yeezy-black transition-all"
+                        >
+                          Gộp
+                        </button>
+                        <button
+                          onClick={() => resolveDuplicates(group, img, 'delete')}
+                          title="Giữ ảnh này, xoá các ảnh còn lại"
+                          className="px-1.5 py-0.5 border border-red-300 text-red-600 hover:border-red-600 transition-all"
+                        >
+                          Xoá khác
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {selectMode && (
+            <div className="flex items-center gap-2 flex-wrap mt-2 text-xs">
+              <span className="text-yeezy-clay">Đã chọn {selectedIds.size} ảnh:</span>
+              {VISIBILITIES.map(v => (
+                <button
+                  key={v}
+                  onClick={() => runBulk({ op: 'visibility', visibility: v })}
+                  disabled={selectedIds.size === 0 || updating}
+                  className="px-3 py-1.5 border border-yeezy-clay/30 text-yeezy-black hover:border-yeezy-black disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                >
+                  {VISIBILITY_LABELS[v]}
+                </button>
+              ))}
+              {[
+                { label: 'Thêm tag', action: () => bulkTags('add') },
+                { label: 'Bỏ tag', action: () => bulkTags('remove') },
+                { label: 'Chú thích', action: bulkCaption },
+              ].map(({ label, action }) => (
+                <button
+                  key={label}
+                  onClick={action}
+                  disabled={selectedIds.size === 0 || updating}
+                  className="px-3 py-1.5 border border-yeezy-clay/30 text-yeezy-black hover:border-yeezy-black disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                >
+                  {label}
+                </button>
+              ))}
+              {albums.length > 0 && (
+                <select
+                  value=""
+                  onChange={e => e.target.value && runBulk({ op: 'album', albumId: Number(e.target.value) })}
+                  disabled={selectedIds.size === 0 || updating}
+                  className="px-2 py-1.5 bg-white/50 text-yeezy-black border border-yeezy-clay/30 disabled:opacity-40"
+                >
+                  <option value="">Chuyển vào album…</option>
+                  {albums.map(album => (
+                    <option key={album.id} value={album.id}>{album.title}</option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={bulkDelete}
+                disabled={selectedIds.size === 0 || updating}
+                className="px-3 py-1.5 border border-red-300 text-red-600 hover:border-red-600 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+              >
+                Xoá
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -279,72 +721,93 @@ export default function LocketDashboard() {
                 animate={{ opacity: 1 }}
                 className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3"
               >
-                {moments.map((moment, index) => (
-                  <motion.div
-                    key={moment.id || index}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: Math.min(index * 0.03, 1) }}
-                    className="group relative aspect-square bg-white/30 rounded overflow-hidden cursor-pointer"
-                    onClick={() => setSelectedMoment(moment)}
-                  >
-                    {/* Grid: use thumbnailUrl for fast load, fallback to imageUrl */}
-                    <img
-                      src={moment.thumbnailUrl || moment.imageUrl}
-                      alt={moment.caption || 'Ảnh cá nhân'}
-                      className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-                      loading="lazy"
-                      onError={(e) => {
-                        const target = e.target as HTMLImageElement
-                        // Fallback: try imageUrl if thumbnailUrl failed
-                        if (moment.imageUrl && target.src !== moment.imageUrl) {
-                          target.src = moment.imageUrl
-                        } else {
-                          target.style.display = 'none'
-                        }
+                {moments.map((moment, index) => {
+                  const galleryImage = galleryImageOf(moment)
+                  const selected = galleryImage ? selectedIds.has(galleryImage.id) : false
+                  return (
+                    <motion.div
+                      key={moment.id || index}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: Math.min(index * 0.03, 1) }}
+                      className={`group relative aspect-square bg-white/30 rounded overflow-hidden cursor-pointer ${selected ? 'ring-2 ring-yeezy-black' : ''} ${selectMode && !galleryImage ? 'opacity-40' : ''}`}
+                      onClick={() => {
+                        if (!selectMode) setSelectedMoment(moment)
+                        else if (galleryImage) toggleSelected(galleryImage.id)
                       }}
-                    />
-
-                    {/* Hover overlay with caption & date */}
-                    <div className="absolute inset-0 bg-black/0 group-hover:bg-black/40 transition-all duration-300 flex items-end">
-                      <div className="w-full p-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                        {moment.caption && (
-                          <p className="text-xs text-white font-medium truncate">
-                            {moment.overlays?.icon?.data && (
-                              <span className="mr-1">{moment.overlays.icon.data}</span>
-                            )}
-                            {moment.caption}
+                    >
+                      {/* Grid: use thumbnailUrl for fast load, fallback to imageUrl */}
+                      <img
+                        src={moment.thumbnailUrl || moment.imageUrl}
+                        alt={moment.caption || 'Ảnh cá nhân'}
+                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                        loading="lazy"
+                        onError={(e) => {
+                          const target = e.target as HTMLImageElement
+                          // Fallback: try imageUrl if thumbnailUrl failed
+                          if (moment.imageUrl && target.src !== moment.imageUrl) {
+                            target.src = moment.imageUrl
+                          } else {
+                            target.style.display = 'none'
+                          }
+                        }}
+                      />
+
+                      {/* Hover overlay with caption & date */}
+                      <div className="absolute inset-0 bg-black/0 group-hover:bg-black/40 transition-all duration-300 flex items-end">
+                        <div className="w-full p-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                          {moment.caption && (
+                            <p className="text-xs text-white font-medium truncate">
+                              {moment.overlays?.icon?.data && (
+                                <span className="mr-1">{moment.overlays.icon.data}</span>
+                              )}
+                              {moment.caption}
+                            </p>
+                          )}
+                          <p className="text-[10px] text-white/70">
+                            {moment.date || (moment.createTime
+                              ? new Date(moment.createTime * 1000).toLocaleDateString('vi-VN')
+                              : '')}
                           </p>
-                        )}
-                        <p className="text-[10px] text-white/70">
-                          {moment.date || (moment.createTime
-                            ? new Date(moment.createTime * 1000).toLocaleDateString('vi-VN')
-                            : '')}
-                        </p>
+                        </div>
                       </div>
-                    </div>
 
-                    {/* Video badge */}
-                    {moment.videoUrl && (
-                      <div className="absolute top-2 right-2">
-                        <div className="w-6 h-6 bg-black/60 rounded-full flex items-center justify-center">
-                          <svg className="w-3 h-3 text-white ml-0.5" fill="currentColor" viewBox="0 0 20 20">
-                            <path d="M6.3 2.841A1.5 1.5 0 004 4.11V15.89a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
-                          </svg>
+                      {/* Video badge */}
+                      {moment.videoUrl && (
+                        <div className="absolute top-2 right-2">
+                          <div className="w-6 h-6 bg-black/60 rounded-full flex items-center justify-center">
+                            <svg className="w-3 h-3 text-white ml-0.5" fill="currentColor" viewBox="0 0 20 20">
+                              <path d="M6.3 2.841A1.5 1.5 0 004 4.11V15.89a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
+                            </svg>
+                          </div>
                         </div>
-                      </div>
-                    )}
+                      )}
 
-                    {/* Caption overlay styling (gradient background from Locket) */}
-                    {moment.caption && moment.overlays?.background?.colors && (
-                      <div className="absolute bottom-0 left-0 right-0 h-1"
-                        style={{
-                          background: `linear-gradient(to right, ${moment.overlays.background.colors.join(', ')})`
-                        }}
-                      />
-                    )}
-                  </motion.div>
-                ))}
+                      {/* Pin badge */}
+                      {galleryImage?.pinned && (
+                        <div className="absolute bottom-2 right-2 px-1.5 py-0.5 bg-yeezy-black text-yeezy-sand text-[9px] tracking-wider uppercase rounded">
+                          Ghim
+                        </div>
+                      )}
+
+                      {/* Visibility badge — public images and unsynced moments get none */}
+                      {galleryImage?.visibility && galleryImage.visibility !== 'public' && (
+                        <div className="absolute top-2 left-2 px-1.5 py-0.5 bg-black/60 text-white text-[9px] tracking-wider uppercase rounded">
+                          {VISIBILITY_LABELS[galleryImage.visibility]}
+                        </div>
+                      )}
+
+                      {/* Caption overlay styling (gradient background from Locket) */}
+                      {moment.caption && moment.overlays?.background?.colors && (
+                        <div className="absolute bottom-0 left-0 right-0 h-1"
+                          style={{
+                            background: `linear-gradient(to right, ${moment.overlays.background.colors.join(', ')})`
+                          }}
+                        />
+                      )}
+                    </motion.div>
+                  )
+                })}
               </motion.div>
             ) : (
               <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-center py-12">
@@ -426,6 +889,39 @@ export default function LocketDashboard() {
                     })
                     : '')}
                 </p>
+                {(() => {
+                  const galleryImage = galleryImageOf(selectedMoment)
+                  if (!galleryImage) {
+                    return <p className="text-[10px] text-white/40 mt-2">Chưa đồng bộ vào gallery</p>
+                  }
+                  return (
+                    <div className="mt-2 flex items-center justify-center gap-2">
+                      <select
+                        value={galleryImage.visibility || 'public'}
+                        onChange={e => changeVisibility([galleryImage.id], e.target.value as Visibility)}
+                        disabled={updating}
+                        className="px-2 py-1 text-xs bg-white/10 text-white border border-white/20"
+                      >
+                        {VISIBILITIES.map(v => (
+                          <option key={v} value={v} className="text-black">{VISIBILITY_LABELS[v]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => togglePinned(galleryImage)}
+                        className="px-2 py-1 text-xs text-white border border-white/20 hover:bg-white/10 transition-colors"
+                      >
+                        {galleryImage.pinned ? 'Bỏ ghim' : 'Ghim lên đầu'}
+                      </button>
+                      <button
+                        onClick={() => renameSlug(galleryImage)}
+                        title={`/p/${galleryImage.slug}`}
+                        className="px-2 py-1 text-xs text-white border border-white/20 hover:bg-white/10 transition-colors"
+                      >
+                        Đổi slug
+                      </button>
+                    </div>
+                  )
+                })()}
               </div>
 
               {/* Close button */}
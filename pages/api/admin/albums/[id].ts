@@ -0,0 +1,54 @@
+/**
+ * One album — admin only
+ *
+ *   GET    /api/admin/albums/:id  → the album with its images
+ *   PUT    /api/admin/albums/:id  → patch fields; image_ids replaces the whole ordered list
+ *   DELETE /api/admin/albums/:id  → delete the album (images are kept)
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { deleteAlbum, getAlbumById, getAlbumBySlug, getAlbumWithImages, updateAlbum } from '@/lib/db'
+import { parseAlbumInput } from '@/lib/albums'
+import { requireAdmin } from '@/lib/auth'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  const id = Number(req.query.id)
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'Album ID required' })
+  }
+
+  try {
+    const album = await getAlbumById(id)
+    if (!album) return res.status(404).json({ error: 'Album not found' })
+
+    if (req.method === 'GET') {
+      return res.status(200).json(await getAlbumWithImages(album))
+    }
+
+    if (req.method === 'PUT') {
+      const { data, error } = parseAlbumInput(req.body, true)
+      if (error) return res.status(400).json({ error })
+
+      if (data.slug && data.slug !== album.slug) {
+        const taken = await getAlbumBySlug(data.slug)
+        if (taken) return res.status(409).json({ error: `Album slug "${data.slug}" is already taken` })
+      }
+
+      return res.status(200).json(await updateAlbum(id, data))
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteAlbum(id)
+      return res.status(200).json({ message: 'Album deleted successfully' })
+    }
+  } catch (error: any) {
+    console.error('Album error:', error)
+    return res.status(500).json({ error: error?.message || 'Album operation failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,39 @@
+/**
+ * Albums — admin only
+ *
+ *   GET  /api/admin/albums  → every album with cover and image count
+ *   POST /api/admin/albums  → create { title, slug?, description?, image_ids?, cover_image_id?, order_index? }
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createAlbum, getAlbumBySlug, getAlbums } from '@/lib/db'
+import { parseAlbumInput, type NewAlbumData } from '@/lib/albums'
+import { requireAdmin } from '@/lib/auth'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json(await getAlbums())
+    }
+
+    if (req.method === 'POST') {
+      const { data, error } = parseAlbumInput(req.body)
+      if (error) return res.status(400).json({ error })
+
+      if (await getAlbumBySlug(data.slug as string)) {
+        return res.status(409).json({ error: `Album slug "${data.slug}" is already taken` })
+      }
+
+      return res.status(201).json(await createAlbum(data as NewAlbumData))
+    }
+  } catch (error: any) {
+    console.error('Album error:', error)
+    return res.status(500).json({ error: error?.message || 'Album operation failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
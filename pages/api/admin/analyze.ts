@@ -0,0 +1,51 @@
+/**
+ * Image analysis backfill (placeholder, palette, perceptual hash) — admin only
+ *
+ *   GET  /api/admin/analyze            → { pendingCount }
+ *   POST /api/admin/analyze  { limit? } → { analyzedCount, failedCount, pendingCount }
+ *
+ * Analyzes images outside the trash that are missing any of them
+ * (see lib/analysis) — Locket images are downloaded from their CDN
+ * thumbnail. `limit` caps how many are processed in one request.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getManagedImages, setImageAnalysis } from '@/lib/db'
+import { analyzeMissing, needsAnalysis } from '@/lib/analysis'
+import { requireAdmin } from '@/lib/auth'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  try {
+    const pending = (await getManagedImages()).filter(needsAnalysis)
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ pendingCount: pending.length })
+    }
+
+    if (req.method === 'POST') {
+      const limit = req.body?.limit === undefined ? pending.length : Number(req.body.limit)
+      if (req.body?.limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        return res.status(400).json({ error: 'limit must be a positive integer' })
+      }
+
+      const batch = pending.slice(0, limit)
+      const results = await analyzeMissing(batch)
+      await setImageAnalysis(results)
+
+      return res.status(200).json({
+        analyzedCount: results.size,
+        failedCount: batch.length - results.size,
+        pendingCount: pending.length - results.size,
+      })
+    }
+  } catch (error: any) {
+    console.error('Analyze error:', error)
+    return res.status(500).json({ error: error?.message || 'Analysis failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
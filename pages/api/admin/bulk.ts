@@ -0,0 +1,54 @@
+/**
+ * Bulk operations — admin only
+ *
+ *   POST /api/admin/bulk  { ids: number[], op: 'delete' }
+ *                         { ids, op: 'visibility', visibility: 'public' | 'unlisted' | 'private' }
+ *                         { ids, op: 'tags', add?: string[], remove?: string[] }
+ *                         { ids, op: 'album', albumId }   → into this album, out of all others
+ *                         { ids, op: 'caption', caption } → '' clears the caption
+ *
+ * → { op, snapshot, results: [{ id, ok, changed, error? }], changedCount, failedCount }
+ *
+ * Unknown ids (404) or a bad operation (400) reject the whole request before
+ * anything is written; see lib/bulk.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { auditContext } from '@/lib/audit'
+import { requireAdmin } from '@/lib/auth'
+import { parseBulkOperation, runBulkOperation } from '@/lib/bulk'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  if (req.method === 'POST') {
+    const { ids } = req.body || {}
+
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => Number.isInteger(id))) {
+      return res.status(400).json({ error: 'ids must be a non-empty list of image IDs' })
+    }
+
+    const { operation, error } = parseBulkOperation(req.body)
+    if (!operation) {
+      return res.status(400).json({ error })
+    }
+
+    try {
+      const result = await runBulkOperation(Array.from(new Set<number>(ids)), operation, auditContext(req))
+      if ('unknownIds' in result) {
+        return res.status(404).json({ error: 'Unknown image IDs', unknownIds: result.unknownIds })
+      }
+      if ('unknownAlbum' in result) {
+        return res.status(404).json({ error: 'Album not found' })
+      }
+      return res.status(200).json(result)
+    } catch (error: any) {
+      console.error('Bulk operation error:', error)
+      return res.status(500).json({ error: error?.message || 'Bulk operation failed' })
+    }
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,62 @@
+/**
+ * Near-duplicate report — admin only
+ *
+ *   GET  /api/admin/duplicates  → { threshold, pendingCount, groups: [{ distance, images }] }
+ *   POST /api/admin/duplicates  { keep, remove: number[], action: 'merge' | 'delete' }
+ *                               → { image, trashedIds, snapshot }
+ *
+ * Groups come from perceptual hashes (see lib/duplicates); images that have
+ * not been analyzed yet (`pendingCount`, see /api/admin/analyze) are not in
+ * the report. POST keeps `keep` and moves `remove` to the trash — 'merge'
+ * carries their tags, captions and album places over first.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { auditContext } from '@/lib/audit'
+import { requireAdmin } from '@/lib/auth'
+import { getManagedImages } from '@/lib/db'
+import { duplicateThreshold, getDuplicateGroups, resolveDuplicates } from '@/lib/duplicates'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  if (req.method === 'GET') {
+    try {
+      const pendingCount = (await getManagedImages()).filter(img => !img.phash).length
+      const groups = await getDuplicateGroups()
+      return res.status(200).json({ threshold: duplicateThreshold(), pendingCount, groups })
+    } catch (error: any) {
+      console.error('Duplicates error:', error)
+      return res.status(500).json({ error: error?.message || 'Failed to find duplicates' })
+    }
+  }
+
+  if (req.method === 'POST') {
+    const { keep, remove, action } = req.body || {}
+
+    if (!Number.isInteger(keep)) {
+      return res.status(400).json({ error: 'keep must be an image ID' })
+    }
+    if (!Array.isArray(remove) || remove.length === 0 || !remove.every(id => Number.isInteger(id) && id !== keep)) {
+      return res.status(400).json({ error: 'remove must be a non-empty list of other image IDs' })
+    }
+    if (action !== 'merge' && action !== 'delete') {
+      return res.status(400).json({ error: 'action must be merge or delete' })
+    }
+
+    try {
+      const result = await resolveDuplicates(keep, Array.from(new Set<number>(remove)), action, auditContext(req))
+      if ('unknownIds' in result) {
+        return res.status(404).json({ error: 'Unknown or trashed image IDs', unknownIds: result.unknownIds })
+      }
+      return res.status(200).json(result)
+    } catch (error: any) {
+      console.error('Duplicates error:', error)
+      return res.status(500).json({ error: error?.message || 'Failed to resolve duplicates' })
+    }
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,50 @@
+/**
+ * Edit history of one image — admin only
+ *
+ *   GET  /api/admin/history/:id  → the image plus its audit events, newest first
+ *   POST /api/admin/history/:id  → revert to the revision after event { eventId }
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getImageById, revertImage } from '@/lib/db'
+import { auditContext, getImageHistory } from '@/lib/audit'
+import { requireAdmin } from '@/lib/auth'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  const id = Number(req.query.id)
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'Image ID required' })
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const image = await getImageById(id)
+      const events = await getImageHistory(id)
+      if (!image && events.length === 0) return res.status(404).json({ error: 'Image not found' })
+      return res.status(200).json({ image, events })
+    }
+
+    if (req.method === 'POST') {
+      const eventId = Number(req.body?.eventId)
+      if (!Number.isInteger(eventId) || eventId <= 0) {
+        return res.status(400).json({ error: 'eventId required' })
+      }
+      if (!(await getImageById(id))) {
+        return res.status(404).json({ error: 'Image not found' })
+      }
+
+      const reverted = await revertImage(id, eventId, auditContext(req))
+      if (!reverted) return res.status(404).json({ error: 'Revision not found for this image' })
+      return res.status(200).json(reverted)
+    }
+  } catch (error: any) {
+    console.error('History error:', error)
+    return res.status(500).json({ error: error?.message || 'History operation failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
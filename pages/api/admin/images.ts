@@ -1,9 +1,19 @@
 import type { NextApiRequest, NextApiResponse} from 'next'
-import { IncomingForm, File } from 'formidable'
+import { IncomingForm, type Fields, type File } from 'formidable'
 import fs from 'fs'
+import os from 'os'
 import path from 'path'
-import sharp from 'sharp'
-import { createImage, updateImage, deleteImage, getImageById } from '@/lib/db'
+import { updateImage, getImageById, getManagedImages, renameImageSlug } from '@/lib/db'
+import { trashImages } from '@/lib/trash'
+import { requireAdmin } from '@/lib/auth'
+import { auditContext } from '@/lib/audit'
+import { slugify } from '@/lib/slug'
+import { normalizeTags } from '@/lib/tags'
+import { isVisibility } from '@/lib/images'
+import { ingestUpload, uploadOptions, MAX_IMAGE_SIZE, MAX_VIDEO_SIZE, type IngestResult } from '@/lib/ingest'
+import { UPLOAD_DIR } from '@/lib/uploads'
+
+const MAX_FILES = 50
 
 export const config = {
   api: {
@@ -11,12 +21,16 @@ export const config = {
   },
 }
 
-function generateSlug(filename: string): string {
-  return filename
-    .toLowerCase()
-    .replace(/\.[^/.]+$/, '') // Remove extension
-    .replace(/[^a-z0-9]+/g, '-') // Replace non-alphanumeric with dash
-    .replace(/^-+|-+$/g, '') // Remove leading/trailing dashes
+/**
+ * bodyParser is disabled for multipart uploads, so JSON bodies are read by hand
+ */
+async function readJsonBody(req: NextApiRequest): Promise<any> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+  }
+  const raw = Buffer.concat(chunks).toString('utf8')
+  return raw ? JSON.parse(raw) : {}
 }
 
 export default async function handler(
@@ -24,100 +38,125 @@ export default async function handler(
   res: NextApiResponse
 ) {
   // Check admin authentication
-  const authHeader = req.headers.authorization
-  const adminPassword = process.env.ADMIN_PASSWORD || 'admin123'
-  
-  if (!authHeader || authHeader !== `Bearer ${adminPassword}`) {
-    return res.status(401).json({ error: 'Unauthorized' })
-  }
+  if (!requireAdmin(req, res)) return
 
-  if (req.method === 'POST') {
-    // Upload image
-    const uploadDir = path.join(process.cwd(), 'public', 'uploads')
-    
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true })
+  if (req.method === 'GET') {
+    // Every image outside the trash, including unlisted and private ones
+    try {
+      return res.status(200).json({ images: await getManagedImages() })
+    } catch (error) {
+      console.error('Admin list error:', error)
+      return res.status(500).json({ error: 'Failed to load images' })
     }
-
+  } else if (req.method === 'POST') {
+    // Upload one or more images or videos (`image` / `video` fields, see
+    // lib/ingest). Large files can go through /api/admin/uploads in chunks.
     const form = new IncomingForm({
-      uploadDir,
+      uploadDir: os.tmpdir(), // Nothing is public until ingestUpload has stripped it
       keepExtensions: true,
-      maxFileSize: 10 * 1024 * 1024, // 10MB
+      maxFiles: MAX_FILES,
+      maxFileSize: MAX_VIDEO_SIZE, // Images are held to MAX_IMAGE_SIZE by ingestUpload
+      maxTotalFileSize: MAX_FILES * MAX_IMAGE_SIZE + MAX_VIDEO_SIZE,
     })
 
-    form.parse(req, async (err, fields, files) => {
-      if (err) {
-        return res.status(500).json({ error: 'Upload failed' })
+    let fields: Fields
+    let files: File[]
+    try {
+      fs.mkdirSync(UPLOAD_DIR, { recursive: true })
+      const parsed = await form.parse(req)
+      fields = parsed[0]
+      files = [parsed[1].image || [], parsed[1].video || []].flat()
+      // Files under any other field name aren't uploads
+      for (const [name, other] of Object.entries(parsed[1])) {
+        if (name !== 'image' && name !== 'video') other?.forEach(file => fs.rmSync(file.filepath, { force: true }))
       }
+    } catch (error: any) {
+      console.error('Upload parse error:', error?.message || error)
+      return res.status(error?.httpCode === 413 ? 413 : 500).json({ error: 'Upload failed' })
+    }
 
-      const file = Array.isArray(files.image) ? files.image[0] : files.image
-      
-      if (!file) {
-        return res.status(400).json({ error: 'No image provided' })
-      }
+    if (files.length === 0) {
+      return res.status(400).json({ error: 'No image provided' })
+    }
+
+    // Several files share the other fields; each is titled and slugged
+    // after its own filename
+    const options = uploadOptions(fields)
+    const batchOptions = files.length > 1 ? { ...options, title: undefined, slug: undefined } : options
+    const context = auditContext(req)
+
+    // One at a time — sharp and ffmpeg already use every core
+    const results: IngestResult[] = []
+    for (const file of files) {
+      results.push(await ingestUpload({
+        filepath: file.filepath,
+        originalFilename: file.originalFilename || path.basename(file.filepath),
+        mimetype: file.mimetype,
+        size: file.size,
+      }, batchOptions, context))
+    }
 
-      try {
-        const originalPath = file.filepath
-        const filename = `${Date.now()}-${file.originalFilename}`
-        const finalPath = path.join(uploadDir, filename)
-        
-        // Move file
-        fs.renameSync(originalPath, finalPath)
-
-        // Get image metadata
-        const metadata = await sharp(finalPath).metadata()
-        
-        // Create thumbnail
-        const thumbFilename = `thumb-${filename}`
-        const thumbPath = path.join(uploadDir, thumbFilename)
-        
-        await sharp(finalPath)
-          .resize(400, 400, { fit: 'cover' })
-          .toFile(thumbPath)
-
-        // Get file size
-        const stats = fs.statSync(finalPath)
-
-        const title = (Array.isArray(fields.title) ? fields.title[0] : fields.title) || 
-                     file.originalFilename?.replace(/\.[^/.]+$/, '') || 'Untitled'
-        
-        const description = Array.isArray(fields.description) ? fields.description[0] : fields.description
-        
-        const slug = generateSlug(file.originalFilename || filename)
-
-        const imageData = {
-          slug,
-          title,
-          description: description ?? undefined,
-          image_url: `/uploads/${filename}`,
-          thumbnail_url: `/uploads/${thumbFilename}`,
-          width: metadata.width || 0,
-          height: metadata.height || 0,
-          file_size: stats.size,
-          order_index: 0,
-        }
-
-        const newImage = createImage(imageData)
-        
-        return res.status(201).json(newImage)
-      } catch (error) {
-        console.error('Upload error:', error)
-        return res.status(500).json({ error: 'Failed to process image' })
+    if (results.length === 1) {
+      const [result] = results
+      if ('error' in result) {
+        const { status, ...body } = result
+        return res.status(status).json(body)
       }
+      return res.status(201).json({ ...result.image, duplicates: result.duplicates })
+    }
+
+    const failedCount = results.filter(result => 'error' in result).length
+    return res.status(failedCount === 0 ? 201 : 207).json({
+      uploadedCount: results.length - failedCount,
+      failedCount,
+      results: results.map((result, i) => ({ filename: files[i].originalFilename, ...result })),
     })
   } else if (req.method === 'PUT') {
     // Update image
-    const { id, title, description, order_index } = req.body
+    let body: any
+    try {
+      body = await readJsonBody(req)
+    } catch {
+      return res.status(400).json({ error: 'Invalid JSON body' })
+    }
+
+    const { id, title, description, order_index, tags, visibility, pinned, slug } = body
 
     if (!id) {
       return res.status(400).json({ error: 'Image ID required' })
     }
 
-    const updated = updateImage(id, {
+    if (visibility !== undefined && !isVisibility(visibility)) {
+      return res.status(400).json({ error: 'visibility must be public, unlisted or private' })
+    }
+
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      return res.status(400).json({ error: 'pinned must be true or false' })
+    }
+
+    if (slug !== undefined) {
+      // Renaming keeps the old slug as a redirect (lib/db renameImageSlug)
+      const newSlug = slugify(String(slug))
+      if (!newSlug) {
+        return res.status(400).json({ error: 'Slug must contain letters or digits' })
+      }
+      const renamed = await renameImageSlug(Number(id), newSlug, auditContext(req))
+      if (!renamed) {
+        return res.status(404).json({ error: 'Image not found' })
+      }
+      if ('taken' in renamed) {
+        return res.status(409).json({ error: `Slug "${newSlug}" is already taken` })
+      }
+    }
+
+    const updated = await updateImage(Number(id), {
       title,
       description,
       order_index,
-    })
+      tags: tags === undefined ? undefined : normalizeTags(tags),
+      visibility,
+      pinned,
+    }, auditContext(req))
 
     if (!updated) {
       return res.status(404).json({ error: 'Image not found' })
@@ -125,43 +164,30 @@ export default async function handler(
 
     return res.status(200).json(updated)
   } else if (req.method === 'DELETE') {
-    // Delete image
+    // Move image to the trash — files are kept until it is purged
     const { id } = req.query
 
     if (!id || typeof id !== 'string') {
       return res.status(400).json({ error: 'Image ID required' })
     }
 
-    const image = getImageById(parseInt(id))
+    const image = await getImageById(parseInt(id))
     
     if (!image) {
       return res.status(404).json({ error: 'Image not found' })
     }
 
-    // Delete files
-    try {
-      const imagePath = path.join(process.cwd(), 'public', image.image_url)
-      if (fs.existsSync(imagePath)) {
-        fs.unlinkSync(imagePath)
-      }
-
-      if (image.thumbnail_url) {
-        const thumbPath = path.join(process.cwd(), 'public', image.thumbnail_url)
-        if (fs.existsSync(thumbPath)) {
-          fs.unlinkSync(thumbPath)
-        }
-      }
-    } catch (error) {
-      console.error('File deletion error:', error)
+    if (image.deleted_at) {
+      return res.status(409).json({ error: 'Image is already in the trash' })
     }
 
-    const deleted = deleteImage(parseInt(id))
+    const trashed = await trashImages([image.id], auditContext(req))
 
-    if (!deleted) {
+    if (trashed.length === 0) {
       return res.status(500).json({ error: 'Failed to delete image' })
     }
 
-    return res.status(200).json({ message: 'Image deleted successfully' })
+    return res.status(200).json({ message: 'Image moved to trash' })
   }
 
   res.status(405).json({ error: 'Method not allowed' })
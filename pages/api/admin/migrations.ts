@@ -0,0 +1,34 @@
+/**
+ * Schema migrations — admin only
+ *
+ *   GET  /api/admin/migrations  → stored vs latest schemaVersion + pending list
+ *   POST /api/admin/migrations  → apply pending migrations
+ *
+ * CLI: `npm run db:migrate` (status) / `npm run db:migrate -- --apply`
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getMigrationStatus, runMigrations } from '@/lib/db'
+import { requireAdmin } from '@/lib/auth'
+import { auditContext } from '@/lib/audit'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json(await getMigrationStatus())
+    }
+
+    if (req.method === 'POST') {
+      return res.status(200).json(await runMigrations(auditContext(req)))
+    }
+  } catch (error: any) {
+    console.error('Migration error:', error)
+    return res.status(500).json({ error: error?.message || 'Migration failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
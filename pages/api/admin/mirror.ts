@@ -0,0 +1,62 @@
+/**
+ * Locket media backfill — admin only
+ *
+ *   GET  /api/admin/mirror            → { pendingCount, unprobedCount }
+ *   POST /api/admin/mirror  { limit? } → { mirroredCount, failedCount, pendingCount, probedCount }
+ *
+ * Downloads the media of Locket images outside the trash that still point
+ * at the CDN (see lib/mirror), then probes (lib/probe) and analyzes them from
+ * the local copies. Images synced before probing existed are probed too.
+ * `limit` caps how many are mirrored in one request.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getManagedImages, setImageAnalysis, setImageMetadata, setMirroredMedia } from '@/lib/db'
+import { analyzeMissing } from '@/lib/analysis'
+import { mirrorMissing, needsMirror } from '@/lib/mirror'
+import { needsProbe, probeMissing } from '@/lib/probe'
+import { requireAdmin } from '@/lib/auth'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  try {
+    const images = await getManagedImages()
+    const pending = images.filter(needsMirror)
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ pendingCount: pending.length, unprobedCount: images.filter(needsProbe).length })
+    }
+
+    if (req.method === 'POST') {
+      const limit = req.body?.limit === undefined ? pending.length : Number(req.body.limit)
+      if (req.body?.limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        return res.status(400).json({ error: 'limit must be a positive integer' })
+      }
+
+      const batch = pending.slice(0, limit)
+      const results = await mirrorMissing(batch)
+      await setMirroredMedia(results)
+
+      // Probed from the local copies — images still on the CDN wait for their turn
+      const records = images.map(img => ({ ...img, ...results.get(img.id) }))
+      const probed = await probeMissing(records.filter(img => !needsMirror(img)))
+      await setImageMetadata(probed)
+      await setImageAnalysis(await analyzeMissing(records.filter(img => results.has(img.id))))
+
+      return res.status(200).json({
+        mirroredCount: results.size,
+        failedCount: batch.length - results.size,
+        pendingCount: pending.length - results.size,
+        probedCount: probed.size,
+      })
+    }
+  } catch (error: any) {
+    console.error('Mirror error:', error)
+    return res.status(500).json({ error: error?.message || 'Mirroring failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,46 @@
+/**
+ * Manual gallery order — admin only
+ *
+ *   POST /api/admin/reorder  { ids: number[] }
+ *
+ * The listed images take the first positions in that order; every other
+ * image keeps its relative order after them. Nothing is written when any id
+ * is unknown. The order is shown when the sort mode is 'manual'
+ * (/api/admin/settings).
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { reorderImages } from '@/lib/db'
+import { auditContext } from '@/lib/audit'
+import { requireAdmin } from '@/lib/auth'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  if (req.method === 'POST') {
+    const { ids } = req.body || {}
+
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => Number.isInteger(id))) {
+      return res.status(400).json({ error: 'ids must be a non-empty list of image IDs' })
+    }
+
+    if (new Set(ids).size !== ids.length) {
+      return res.status(400).json({ error: 'ids must not repeat' })
+    }
+
+    try {
+      const result = await reorderImages(ids, auditContext(req))
+      if ('unknownIds' in result) {
+        return res.status(404).json({ error: 'Unknown image IDs', unknownIds: result.unknownIds })
+      }
+      return res.status(200).json(result)
+    } catch (error: any) {
+      console.error('Reorder error:', error)
+      return res.status(500).json({ error: error?.message || 'Failed to reorder images' })
+    }
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,74 @@
+/**
+ * Gallery settings — admin only
+ *
+ *   GET /api/admin/settings  → { sortMode, exif }
+ *   PUT /api/admin/settings  { sortMode?: 'chronological' | 'manual' | 'pinned',
+ *                              exif?: { keepLocation?: boolean, publicFields?: ExifField[] } }
+ *
+ * sortMode decides the order of /api/images, /api/search and the home grid
+ * (see SortMode in lib/images). exif is the EXIF policy for uploads (see
+ * ExifSettings in lib/images).
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getExifSettings, getSortMode, setExifSettings, setSortMode } from '@/lib/db'
+import { auditContext } from '@/lib/audit'
+import { requireAdmin } from '@/lib/auth'
+import { EXIF_FIELDS, isExifField, isSortMode, SORT_MODES, type ExifSettings } from '@/lib/images'
+
+/** Validate a partial EXIF policy from the request body */
+function parseExifSettings(input: unknown): { changes?: Partial<ExifSettings>; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { error: 'exif must be an object' }
+  const { keepLocation, publicFields } = input as Record<string, unknown>
+
+  const changes: Partial<ExifSettings> = {}
+  if (keepLocation !== undefined) {
+    if (typeof keepLocation !== 'boolean') return { error: 'exif.keepLocation must be true or false' }
+    changes.keepLocation = keepLocation
+  }
+  if (publicFields !== undefined) {
+    if (!Array.isArray(publicFields) || !publicFields.every(isExifField)) {
+      return { error: `exif.publicFields must only contain ${EXIF_FIELDS.join(', ')}` }
+    }
+    changes.publicFields = EXIF_FIELDS.filter(field => publicFields.includes(field))
+  }
+  return { changes }
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ sortMode: await getSortMode(), exif: await getExifSettings() })
+    }
+
+    if (req.method === 'PUT') {
+      const { sortMode, exif } = req.body || {}
+
+      if (sortMode === undefined && exif === undefined) {
+        return res.status(400).json({ error: 'sortMode or exif required' })
+      }
+
+      if (sortMode !== undefined && !isSortMode(sortMode)) {
+        return res.status(400).json({ error: `sortMode must be one of ${SORT_MODES.join(', ')}` })
+      }
+
+      const exifInput = exif === undefined ? {} : parseExifSettings(exif)
+      if (exifInput.error) {
+        return res.status(400).json({ error: exifInput.error })
+      }
+
+      if (sortMode !== undefined) await setSortMode(sortMode, auditContext(req))
+      if (exifInput.changes) await setExifSettings(exifInput.changes, auditContext(req))
+      return res.status(200).json({ sortMode: await getSortMode(), exif: await getExifSettings() })
+    }
+  } catch (error) {
+    console.error('Settings error:', error)
+    return res.status(500).json({ error: 'Failed to update settings' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
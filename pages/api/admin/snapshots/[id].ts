@@ -0,0 +1,51 @@
+/**
+ * One snapshot — admin only
+ *
+ *   GET    /api/admin/snapshots/:id  → diff against the current gallery
+ *   POST   /api/admin/snapshots/:id  → restore it (current state is snapshotted first)
+ *   DELETE /api/admin/snapshots/:id  → delete the snapshot file
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { deleteSnapshot, diffSnapshot, listSnapshots, restoreSnapshot } from '@/lib/snapshots'
+import { requireAdmin } from '@/lib/auth'
+import { auditContext } from '@/lib/audit'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string' || !/^[\w-]+$/.test(id)) {
+    return res.status(400).json({ error: 'Snapshot ID required' })
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const snapshot = listSnapshots().find(s => s.id === id)
+      const diff = await diffSnapshot(id)
+      if (!snapshot || !diff) return res.status(404).json({ error: 'Snapshot not found' })
+      return res.status(200).json({ ...snapshot, diff })
+    }
+
+    if (req.method === 'POST') {
+      const result = await restoreSnapshot(id, auditContext(req))
+      if (!result) return res.status(404).json({ error: 'Snapshot not found' })
+      return res.status(200).json({
+        message: `Restored ${result.restoredCount} images`,
+        ...result,
+      })
+    }
+
+    if (req.method === 'DELETE') {
+      if (!deleteSnapshot(id)) return res.status(404).json({ error: 'Snapshot not found' })
+      return res.status(200).json({ message: 'Snapshot deleted successfully' })
+    }
+  } catch (error: any) {
+    console.error('Snapshot error:', error)
+    return res.status(500).json({ error: error?.message || 'Snapshot operation failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,32 @@
+/**
+ * Gallery snapshots — admin only
+ *
+ *   GET  /api/admin/snapshots  → list snapshots, newest first
+ *   POST /api/admin/snapshots  → take a snapshot now ({ reason? })
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createSnapshot, listSnapshots } from '@/lib/snapshots'
+import { requireAdmin } from '@/lib/auth'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  if (req.method === 'GET') {
+    return res.status(200).json(listSnapshots())
+  }
+
+  if (req.method === 'POST') {
+    try {
+      const reason = typeof req.body?.reason === 'string' && req.body.reason ? req.body.reason : 'manual'
+      return res.status(201).json(await createSnapshot(reason))
+    } catch (error: any) {
+      console.error('Snapshot error:', error)
+      return res.status(500).json({ error: error?.message || 'Failed to create snapshot' })
+    }
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
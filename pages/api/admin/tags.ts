@@ -0,0 +1,43 @@
+/**
+ * Bulk tag editing — admin only
+ *
+ *   POST /api/admin/tags  { ids: number[], add?: string[], remove?: string[] }
+ *
+ * Tags are normalized (lib/tags); all images are updated in one write.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { updateImageTags } from '@/lib/db'
+import { auditContext } from '@/lib/audit'
+import { requireAdmin } from '@/lib/auth'
+import { normalizeTags } from '@/lib/tags'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  if (req.method === 'POST') {
+    const { ids, add, remove } = req.body || {}
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'Image IDs required' })
+    }
+
+    const addTags = normalizeTags(add)
+    const removeTags = normalizeTags(remove)
+    if (addTags.length === 0 && removeTags.length === 0) {
+      return res.status(400).json({ error: 'Nothing to add or remove' })
+    }
+
+    try {
+      const updated = await updateImageTags(ids.map(Number), { add: addTags, remove: removeTags }, auditContext(req))
+      return res.status(200).json({ updatedCount: updated.length, images: updated })
+    } catch (error: any) {
+      console.error('Tag update error:', error)
+      return res.status(500).json({ error: error?.message || 'Failed to update tags' })
+    }
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
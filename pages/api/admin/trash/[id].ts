@@ -0,0 +1,41 @@
+/**
+ * One trashed image — admin only
+ *
+ *   POST   /api/admin/trash/:id  → restore it to the gallery
+ *   DELETE /api/admin/trash/:id  → purge it (record and files)
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { purgeTrash, restoreImages } from '@/lib/trash'
+import { requireAdmin } from '@/lib/auth'
+import { auditContext } from '@/lib/audit'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  const id = Number(req.query.id)
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'Image ID required' })
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const [restored] = await restoreImages([id], auditContext(req))
+      if (!restored) return res.status(404).json({ error: 'Image not found in trash' })
+      return res.status(200).json(restored)
+    }
+
+    if (req.method === 'DELETE') {
+      const purged = await purgeTrash([id], auditContext(req))
+      if (purged.length === 0) return res.status(404).json({ error: 'Image not found in trash' })
+      return res.status(200).json({ message: 'Image purged successfully' })
+    }
+  } catch (error: any) {
+    console.error('Trash error:', error)
+    return res.status(500).json({ error: error?.message || 'Trash operation failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
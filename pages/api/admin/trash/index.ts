@@ -0,0 +1,36 @@
+/**
+ * Trash bin — admin only
+ *
+ *   GET    /api/admin/trash  → trashed images, most recently deleted first
+ *   DELETE /api/admin/trash  → empty the trash (records and files), after a snapshot
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { listTrash, purgeTrash } from '@/lib/trash'
+import { createSnapshot } from '@/lib/snapshots'
+import { requireAdmin } from '@/lib/auth'
+import { auditContext } from '@/lib/audit'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json(await listTrash())
+    }
+
+    if (req.method === 'DELETE') {
+      // Records can be restored from the snapshot; the files are gone
+      const snapshot = await createSnapshot('purge')
+      const purged = await purgeTrash(undefined, auditContext(req))
+      return res.status(200).json({ message: `Purged ${purged.length} images`, purged, snapshot: snapshot.id })
+    }
+  } catch (error: any) {
+    console.error('Trash error:', error)
+    return res.status(500).json({ error: error?.message || 'Trash operation failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
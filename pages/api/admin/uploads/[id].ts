@@ -0,0 +1,84 @@
+/**
+ * One chunked upload session — admin only (see lib/chunked)
+ *
+ *   GET    /api/admin/uploads/:id          → received parts, to resume
+ *   PUT    /api/admin/uploads/:id?part=N   → store part N (raw body, from 0)
+ *   POST   /api/admin/uploads/:id          → join the parts and create the image
+ *                                            (409 while another request does)
+ *   DELETE /api/admin/uploads/:id          → abort, dropping the parts
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { completeUploadSession, deleteUploadSession, getUploadSession, releaseUploadSession, writeUploadPart } from '@/lib/chunked'
+import { ingestUpload } from '@/lib/ingest'
+import { requireAdmin } from '@/lib/auth'
+import { auditContext } from '@/lib/audit'
+
+export const config = {
+  api: {
+    bodyParser: false, // Parts are read as raw bytes
+  },
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  const { id, part } = req.query
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Upload ID required' })
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const session = getUploadSession(id)
+      if (!session) return res.status(404).json({ error: 'Upload not found' })
+      return res.status(200).json(session)
+    }
+
+    if (req.method === 'PUT') {
+      if (typeof part !== 'string' || !/^\d+$/.test(part)) {
+        return res.status(400).json({ error: 'part must be a part number' })
+      }
+      const session = await writeUploadPart(id, Number(part), req)
+      if (!session) return res.status(404).json({ error: 'Upload not found' })
+      if ('error' in session) return res.status(session.status).json({ error: session.error })
+      return res.status(200).json(session)
+    }
+
+    if (req.method === 'POST') {
+      const completed = await completeUploadSession(id)
+      if (!completed) return res.status(404).json({ error: 'Upload not found' })
+      if ('missing' in completed) {
+        return res.status(409).json({ error: 'Upload is missing parts', missing: completed.missing })
+      }
+      if ('busy' in completed) {
+        return res.status(409).json({ error: 'Upload is already being completed' })
+      }
+      // A failed ingest keeps the parts, so completing can be retried
+      const result = await ingestUpload(completed.file, completed.options, auditContext(req))
+        .catch(error => {
+          releaseUploadSession(id)
+          throw error
+        })
+      if ('error' in result) {
+        releaseUploadSession(id)
+        const { status, ...body } = result
+        return res.status(status).json(body)
+      }
+      deleteUploadSession(id)
+      return res.status(201).json({ ...result.image, duplicates: result.duplicates })
+    }
+
+    if (req.method === 'DELETE') {
+      if (!deleteUploadSession(id)) return res.status(404).json({ error: 'Upload not found' })
+      return res.status(200).json({ message: 'Upload aborted' })
+    }
+  } catch (error) {
+    console.error('Upload session error:', error)
+    return res.status(500).json({ error: 'Upload session operation failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
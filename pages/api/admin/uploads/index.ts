@@ -0,0 +1,41 @@
+/**
+ * Chunked uploads — admin only (see lib/chunked)
+ *
+ *   GET  /api/admin/uploads  → open sessions, most recently active first
+ *   POST /api/admin/uploads  → open a session
+ *        ({ filename, size, mime_type?, chunk_size?, title?, description?, slug?,
+ *           tags?, visibility?, duplicates?, transcode? })
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createUploadSession, listUploadSessions } from '@/lib/chunked'
+import { uploadOptions } from '@/lib/ingest'
+import { requireAdmin } from '@/lib/auth'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ sessions: listUploadSessions() })
+    }
+
+    if (req.method === 'POST') {
+      const { filename, size, mime_type, chunk_size, transcode, ...fields } = req.body || {}
+      const options = uploadOptions({
+        ...fields,
+        transcode: transcode === undefined ? undefined : String(transcode),
+      })
+      const session = createUploadSession({ filename, size, mime_type, chunk_size }, options)
+      if ('error' in session) return res.status(session.status).json({ error: session.error })
+      return res.status(201).json(session)
+    }
+  } catch (error) {
+    console.error('Upload session error:', error)
+    return res.status(500).json({ error: 'Upload session operation failed' })
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,42 @@
+/**
+ * Bulk visibility changes — admin only
+ *
+ *   POST /api/admin/visibility  { ids: number[], visibility: 'public' | 'unlisted' | 'private' }
+ *
+ * All images are updated in one write; images already at that visibility
+ * are left untouched.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { setImageVisibility } from '@/lib/db'
+import { auditContext } from '@/lib/audit'
+import { requireAdmin } from '@/lib/auth'
+import { isVisibility } from '@/lib/images'
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!requireAdmin(req, res)) return
+
+  if (req.method === 'POST') {
+    const { ids, visibility } = req.body || {}
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'Image IDs required' })
+    }
+
+    if (!isVisibility(visibility)) {
+      return res.status(400).json({ error: 'visibility must be public, unlisted or private' })
+    }
+
+    try {
+      const updated = await setImageVisibility(ids.map(Number), visibility, auditContext(req))
+      return res.status(200).json({ updatedCount: updated.length, images: updated })
+    } catch (error: any) {
+      console.error('Visibility update error:', error)
+      return res.status(500).json({ error: error?.message || 'Failed to update visibility' })
+    }
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getAlbumBySlug, getGalleryRevision, getPublicAlbums, getPublicAlbumWithImages } from '@/lib/db'
+import { notModified, sendJson } from '@/lib/http'
+
+/**
+ * Public albums
+ *
+ *   GET /api/albums             → every album with cover and image count
+ *   GET /api/albums?slug=<slug> → one album with its images in album order
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'GET') {
+    const { slug } = req.query
+
+    if (notModified(req, res, await getGalleryRevision())) return
+
+    if (slug && typeof slug === 'string') {
+      const album = await getAlbumBySlug(slug)
+
+      if (!album) {
+        return res.status(404).json({ error: 'Album not found' })
+      }
+
+      return sendJson(res, await getPublicAlbumWithImages(album))
+    }
+
+    const albums = await getPublicAlbums()
+    return sendJson(res, albums)
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
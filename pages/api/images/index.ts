@@ -1,25 +1,52 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { getAllImages, getImageBySlug } from '@/lib/db'
+import { getGalleryRevision, getImageBySlug, getImagePage } from '@/lib/db'
+import { notModified, sendJson } from '@/lib/http'
+import { parseImageQuery, parsePageRequest } from '@/lib/query'
 
+/**
+ * Public gallery
+ *
+ *   GET /api/images              → { images, total, limit, page, totalPages, nextCursor }
+ *   GET /api/images?slug=<slug>  → one image
+ *
+ * Paging (limit, cursor or page) and filters (tag/match, source, media,
+ * from/to, locket_user_id, color) are described in lib/query.ts. Responses carry
+ * ETag/Last-Modified and conditional requests get a 304 (lib/http).
+ */
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
   if (req.method === 'GET') {
     const { slug } = req.query
+    const revision = await getGalleryRevision()
 
     if (slug && typeof slug === 'string') {
-      const image = getImageBySlug(slug)
+      if (notModified(req, res, revision)) return
+
+      const image = await getImageBySlug(slug)
       
       if (!image) {
         return res.status(404).json({ error: 'Image not found' })
       }
       
-      return res.status(200).json(image)
+      return sendJson(res, image)
+    }
+
+    const { query, error: queryError } = parseImageQuery(req.query)
+    const { page, error: pageError } = parsePageRequest(req.query)
+    if (queryError || pageError) {
+      return res.status(400).json({ error: queryError || pageError })
+    }
+
+    if (notModified(req, res, revision)) return
+
+    const result = await getImagePage(query, page)
+    if (!result) {
+      return res.status(400).json({ error: 'Invalid cursor' })
     }
 
-    const images = getAllImages()
-    return res.status(200).json(images)
+    return sendJson(res, result)
   }
 
   res.status(405).json({ error: 'Method not allowed' })
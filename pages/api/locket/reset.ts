@@ -2,17 +2,22 @@
  * Locket Reset API — Clear database and re-sync all moments from Locket
  * 
  * Flow:
- *   1. Clear database/images.json
- *   2. Fetch ALL current moments from Locket
- *   3. Save fresh data to database
+ *   1. Fetch ALL current moments from Locket
+ *   2. Replace every image in the gallery store with them
+ *   3. Download, probe and analyze a batch of media (lib/backfill) —
+ *      `pendingCount` tells how many wait for the next sync
  */
 import type { NextApiRequest, NextApiResponse } from 'next'
-import fs from 'fs'
-import path from 'path'
+import { replaceAllImages } from '@/lib/db'
+import { auditContext } from '@/lib/audit'
+import { isVisibility } from '@/lib/images'
+import { defaultSyncVisibility, fetchMomentsForSync, hasMedia, momentToImage } from '@/lib/locket'
+import { processMediaBatch } from '@/lib/backfill'
 
 interface ResetResponse {
     success: boolean
     syncedCount?: number
+    pendingCount?: number
     message?: string
 }
 
@@ -35,16 +40,17 @@ export default async function handler(
             })
         }
 
-        // Step 1: Fetch fresh moments from Locket API
-        const baseUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3000}`
-        const momentsResponse = await fetch(`${baseUrl}/api/locket/moments`, {
-            headers: {
-                'x-locket-token': idToken,
-                'x-locket-uid': localId,
-            },
-        })
+        // Moments that weren't in the gallery before get this visibility
+        const visibility = req.body?.visibility || defaultSyncVisibility()
+        if (!isVisibility(visibility)) {
+            return res.status(400).json({
+                success: false,
+                message: 'visibility phải là public, unlisted hoặc private'
+            })
+        }
 
-        const momentsResult = await momentsResponse.json()
+        // Step 1: Fetch fresh moments from Locket API
+        const momentsResult = await fetchMomentsForSync(idToken, localId)
 
         if (!momentsResult.success || !momentsResult.data) {
             return res.status(400).json({
@@ -53,50 +59,24 @@ export default async function handler(
             })
         }
 
-        // Step 2: Convert ALL moments to gallery format (fresh, no dedup needed)
-        let nextId = 1
-        const newImages = momentsResult.data
-            .filter((moment: any) => moment.thumbnailUrl || moment.imageUrl)
-            .map((moment: any) => {
-                const slug = `locket-${moment.id}`
-                const dateStr = moment.date || (moment.createTime
-                    ? new Date(moment.createTime * 1000).toISOString()
-                    : new Date().toISOString())
-
-                return {
-                    id: nextId++,
-                    slug,
-                    title: moment.caption || `Locket ${moment.date || new Date(moment.createTime * 1000).toLocaleDateString('vi-VN')}`,
-                    description: moment.videoUrl ? 'Video từ Locket' : 'Ảnh cá nhân từ Locket',
-                    image_url: moment.imageUrl || moment.thumbnailUrl,
-                    video_url: moment.videoUrl || undefined,
-                    thumbnail_url: moment.thumbnailUrl || moment.imageUrl,
-                    width: 1080,
-                    height: 1080,
-                    created_at: dateStr,
-                    updated_at: new Date().toISOString(),
-                    order_index: nextId - 1,
-                    source: 'locket',
-                    locket_user_id: localId,
-                    caption: moment.caption || undefined,
-                    overlays: moment.overlays || undefined,
-                }
-            })
-
-        // Step 3: Write fresh database (completely replace old data)
-        const dbPath = path.join(process.cwd(), 'database', 'images.json')
-        const dbDir = path.dirname(dbPath)
-        if (!fs.existsSync(dbDir)) fs.mkdirSync(dbDir, { recursive: true })
+        // Step 2: Convert ALL moments and replace the gallery (fresh, no dedup needed)
+        const newImages = await replaceAllImages(
+            momentsResult.data
+                .filter(hasMedia)
+                .map(moment => momentToImage(moment, localId, visibility)),
+            auditContext(req, `locket:${localId}`)
+        )
 
-        fs.writeFileSync(dbPath, JSON.stringify({
-            images: newImages,
-            nextId,
-        }, null, 2))
+        // Step 3: Local copies, metadata and analysis for moments that had
+        // none before the reset — the rest is left to the next sync
+        const { pendingCount } = await processMediaBatch(newImages)
 
         return res.status(200).json({
             success: true,
             syncedCount: newImages.length,
-            message: `Đã reset và đồng bộ lại ${newImages.length} ảnh/video từ Locket`,
+            pendingCount,
+            message: `Đã reset và đồng bộ lại ${newImages.length} ảnh/video từ Locket` +
+                (pendingCount > 0 ? ` — còn ${pendingCount} ảnh/video chờ tải về, đồng bộ lại để tiếp tục` : ''),
         })
 
     } catch (error: any) {
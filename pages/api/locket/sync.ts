@@ -5,16 +5,25 @@
  * Flow:
  *   1. Fetch user's personal moments via /api/locket/moments (with auth)
  *   2. Convert to gallery format, dedup by slug
- *   3. Merge into database/images.json
+ *   3. Upsert into the gallery store (lib/db)
+ *   4. Download, probe and analyze a batch of media (lib/backfill) —
+ *      `pendingCount` tells how many wait for the next sync
+ *   5. Count new moments that look like copies of other images (lib/duplicates)
  */
 import type { NextApiRequest, NextApiResponse } from 'next'
-import fs from 'fs'
-import path from 'path'
+import { getManagedImages, upsertImages } from '@/lib/db'
+import { auditContext } from '@/lib/audit'
+import { isVisibility } from '@/lib/images'
+import { defaultSyncVisibility, fetchMomentsForSync, hasMedia, momentToImage } from '@/lib/locket'
+import { processMediaBatch } from '@/lib/backfill'
+import { findDuplicates } from '@/lib/duplicates'
 
 interface SyncResponse {
   success: boolean
   syncedCount?: number
   skippedCount?: number
+  duplicateCount?: number
+  pendingCount?: number
   message?: string
 }
 
@@ -38,16 +47,16 @@ export default async function handler(
       })
     }
 
-    // Fetch personal moments via our own API
-    const baseUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3000}`
-    const momentsResponse = await fetch(`${baseUrl}/api/locket/moments`, {
-      headers: {
-        'x-locket-token': idToken,
-        'x-locket-uid': localId,
-      },
-    })
+    // New moments get LOCKET_DEFAULT_VISIBILITY unless the request picks one
+    const visibility = req.body?.visibility || defaultSyncVisibility()
+    if (!isVisibility(visibility)) {
+      return res.status(400).json({
+        success: false,
+        message: 'visibility phải là public, unlisted hoặc private'
+      })
+    }
 
-    const momentsResult = await momentsResponse.json()
+    const momentsResult = await fetchMomentsForSync(idToken, localId)
 
     if (!momentsResult.success || !momentsResult.data) {
       return res.status(400).json({
@@ -56,90 +65,53 @@ export default async function handler(
       })
     }
 
-    // Load existing gallery database
-    const dbPath = path.join(process.cwd(), 'database', 'images.json')
-    let existingImages: any[] = []
-    let nextId = 1
-
-    try {
-      const dbData = fs.readFileSync(dbPath, 'utf8')
-      const db = JSON.parse(dbData)
-      existingImages = Array.isArray(db) ? db : (db.images || [])
-      nextId = Array.isArray(db)
-        ? Math.max(0, ...existingImages.map((img: any) => parseInt(img.id) || 0)) + 1
-        : db.nextId || existingImages.length + 1
-    } catch {
-      console.log('Creating new database')
-    }
-
-    // Convert Locket moments → gallery images
-    const existingSlugs = new Set(existingImages.map((img: any) => img.slug))
-    let syncedCount = 0
-    let skippedCount = 0
-
-    const newImages = momentsResult.data
-      .filter((moment: any) => moment.thumbnailUrl || moment.imageUrl) // Must have a valid image URL
-      .map((moment: any) => {
-        const slug = `locket-${moment.id}`
-
-        // Skip duplicates
-        if (existingSlugs.has(slug)) {
-          skippedCount++
-          return null
-        }
-
-        syncedCount++
-        existingSlugs.add(slug)
-
-        const dateStr = moment.date || (moment.createTime
-          ? new Date(moment.createTime * 1000).toISOString()
-          : new Date().toISOString())
-
-        return {
-          id: nextId++,
-          slug,
-          title: moment.caption || `Locket ${moment.date || new Date(moment.createTime * 1000).toLocaleDateString('vi-VN')}`,
-          description: moment.videoUrl ? 'Video từ Locket' : 'Ảnh cá nhân từ Locket',
-          image_url: moment.imageUrl || moment.thumbnailUrl,      // Full-res for display
-          video_url: moment.videoUrl || undefined,
-          thumbnail_url: moment.thumbnailUrl || moment.imageUrl,  // Thumbnail for grid
-          width: 1080,
-          height: 1080,
-          created_at: dateStr,
-          updated_at: new Date().toISOString(),
-          order_index: existingImages.length + syncedCount,
-          source: 'locket',
-          locket_user_id: localId,
-        }
-      })
-      .filter(Boolean) // Remove nulls (skipped duplicates)
+    // Convert Locket moments → gallery images, existing slugs are skipped
+    const results = await upsertImages(
+      momentsResult.data
+        .filter(hasMedia) // Must have a valid image URL
+        .map(moment => momentToImage(moment, localId, visibility)),
+      'skip',
+      auditContext(req, `locket:${localId}`)
+    )
+
+    // Local copies of the media, then its metadata and the rest of the pixel
+    // data — new moments first, then older ones synced before these existed
+    const { pendingCount } = await processMediaBatch([
+      ...results.filter(r => r.created).map(r => r.record),
+      ...results.filter(r => !r.created).map(r => r.record),
+    ])
+    const pendingNote = pendingCount > 0 ? ` — còn ${pendingCount} ảnh/video chờ tải về, đồng bộ lại để tiếp tục` : ''
+
+    const newImages = results.filter(r => r.created)
+    const skippedCount = results.length - newImages.length
 
     if (newImages.length === 0) {
       return res.status(200).json({
         success: true,
         syncedCount: 0,
         skippedCount,
-        message: skippedCount > 0
+        pendingCount,
+        message: (skippedCount > 0
           ? `Tất cả ${skippedCount} ảnh đã được đồng bộ trước đó`
-          : 'Không có ảnh mới để đồng bộ'
+          : 'Không có ảnh mới để đồng bộ') + pendingNote
       })
     }
 
-    // Merge and save
-    const updatedImages = [...existingImages, ...newImages]
-    const dbDir = path.dirname(dbPath)
-    if (!fs.existsSync(dbDir)) fs.mkdirSync(dbDir, { recursive: true })
-
-    fs.writeFileSync(dbPath, JSON.stringify({
-      images: updatedImages,
-      nextId,
-    }, null, 2))
+    // New moments are kept either way; the duplicates report sorts them out
+    const managed = await getManagedImages()
+    const newIds = new Set(newImages.map(r => r.record.id))
+    const duplicateCount = managed
+      .filter(img => newIds.has(img.id) && img.phash && findDuplicates(img.phash, managed, img.id).length > 0)
+      .length
 
     return res.status(200).json({
       success: true,
       syncedCount: newImages.length,
       skippedCount,
-      message: `Đã đồng bộ ${newImages.length} ảnh cá nhân vào gallery`,
+      duplicateCount,
+      pendingCount,
+      message: `Đã đồng bộ ${newImages.length} ảnh cá nhân vào gallery` +
+        (duplicateCount > 0 ? ` (${duplicateCount} ảnh có vẻ trùng với ảnh đã có)` : '') + pendingNote,
     })
 
   } catch (error: any) {
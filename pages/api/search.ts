@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getAllImages, getGalleryRevision } from '@/lib/db'
+import { notModified, sendJson } from '@/lib/http'
+import { paginate, parseImageQuery, parsePageRequest } from '@/lib/query'
+import { searchImages } from '@/lib/search'
+
+/**
+ * Public search — GET /api/search?q=<text>
+ *
+ * Searches title, caption, tags, description and overlay icon text,
+ * ignoring Vietnamese diacritics. Returns the same page shape as
+ * /api/images with matches ranked best first, each with its `score`.
+ * Filters work as in /api/images; results are paged by `page` only
+ * (ranked lists have no stable cursor).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'GET') {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+
+    if (!q) {
+      return res.status(400).json({ error: 'Search query required' })
+    }
+
+    const { query, error: queryError } = parseImageQuery(req.query)
+    const { page, error: pageError } = parsePageRequest(req.query)
+    if (queryError || pageError) {
+      return res.status(400).json({ error: queryError || pageError })
+    }
+
+    if (notModified(req, res, await getGalleryRevision())) return
+
+    const results = searchImages(await getAllImages(query), q.slice(0, 200))
+    return sendJson(res, paginate(results.map(({ image, score }) => ({ ...image, score })), page))
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getGalleryRevision, getTagCounts } from '@/lib/db'
+import { notModified, sendJson } from '@/lib/http'
+
+/**
+ * Tag cloud — GET /api/tags → [{ tag, count }], most used first
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'GET') {
+    if (notModified(req, res, await getGalleryRevision())) return
+    return sendJson(res, await getTagCounts())
+  }
+
+  res.status(405).json({ error: 'Method not allowed' })
+}
@@ -2,11 +2,14 @@
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { useRouter } from 'next/router'
+import Link from 'next/link'
 import { LayoutGroup } from 'framer-motion'
 import type { ImageData } from '@/lib/images'
 import Navbar from '@/components/Navbar'
 import ImageCard from '@/components/ImageCard'
 import ImageModal from '@/components/ImageModal'
+import TagChips from '@/components/TagChips'
+import { normalizeTags, type TagCount, type TagMatch } from '@/lib/tags'
 
 
 /**
@@ -15,89 +18,146 @@ import ImageModal from '@/components/ImageModal'
  * Clean grid, Inter font, no clutter. Each image shows date below.
  * Click → full-screen modal with shared element transition.
  * 
- * Photos are loaded from the synced database (public).
- * Admin syncs Locket moments via /admin/locket/dashboard.
+ * Photos are loaded from the synced database (public), one server page
+ * at a time. Admin syncs Locket moments via /admin/locket/dashboard.
+ *
+ * ?q= searches (ranked, diacritic-insensitive) and ?tag=a,b filters by
+ * tags (all of them, or any with &match=any). Both live in the URL so views
+ * can be shared, and are kept while the modal is open.
  */
 export default function Home() {
   const router = useRouter()
   const [images, setImages] = useState<ImageData[]>([])
   const [selectedImage, setSelectedImage] = useState<ImageData | null>(null)
   const [loading, setLoading] = useState(true)
-  const [currentPage, setCurrentPage] = useState(1)
+  const [pageState, setPageState] = useState({ filterKey: '', page: 1 })
+  const [totalPages, setTotalPages] = useState(1)
+  const [tagCloud, setTagCloud] = useState<TagCount[]>([])
+  const [searchInput, setSearchInput] = useState('')
   const lastViewedRef = useRef<string | null>(null)
   const IMAGES_PER_PAGE = 24
 
-  // Fetch synced images from public database API
+  // Search and tag filter from the URL
+  const searchQuery = typeof router.query.q === 'string' ? router.query.q.trim() : ''
+  const tagParam = [router.query.tag || []].flat().join(',')
+  const activeTags = useMemo(() => normalizeTags(tagParam), [tagParam])
+  const tagMatch: TagMatch = router.query.match === 'any' ? 'any' : 'all'
+
+  const buildQuery = useCallback((q: string, tags: string[], match: TagMatch) => {
+    const query: Record<string, string> = {}
+    if (q) query.q = q
+    if (tags.length > 0) query.tag = tags.join(',')
+    if (tags.length > 1 && match === 'any') query.match = 'any'
+    return query
+  }, [])
+
+  const filterQuery = useMemo(
+    () => buildQuery(searchQuery, activeTags, tagMatch),
+    [buildQuery, searchQuery, activeTags, tagMatch]
+  )
+  const filterKey = new URLSearchParams(filterQuery).toString()
+
+  // A new search or filter starts again at page 1
+  const currentPage = pageState.filterKey === filterKey ? pageState.page : 1
+
+  // Keep the search box in step with the URL (back/forward, shared links)
   useEffect(() => {
-    const fetchImages = async () => {
-      try {
-        setLoading(true)
-        const res = await fetch('/api/images')
-        if (res.ok) {
-          const data = await res.json()
-          const imgs: ImageData[] = (Array.isArray(data) ? data : data.images || [])
-            .map((img: any) => ({
-              id: String(img.id || img.slug || ''),
-              slug: img.slug || '',
-              image_url: img.image_url || img.thumbnail_url || '',
-              thumbnail_url: img.thumbnail_url || img.image_url || '',
-              video_url: img.video_url || undefined,
-              title: img.title || '',
-              caption: img.caption || img.title || '',
-              width: img.width || 1080,
-              height: img.height || 1080,
-              created_at: typeof img.created_at === 'number'
-                ? new Date(img.created_at).toISOString()
-                : img.created_at || new Date().toISOString(),
-              order_index: img.order_index || 0,
-              source: img.source || 'locket',
-              overlays: img.overlays || null,
-            }))
-            .filter((img: ImageData) => img.image_url)
-            .sort((a: ImageData, b: ImageData) =>
-              new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-            )
-          setImages(imgs)
-        }
-      } catch (err) {
-        console.error('Failed to fetch images:', err)
-      } finally {
-        setLoading(false)
+    if (router.isReady) setSearchInput(current => (current.trim() === searchQuery ? current : searchQuery))
+  }, [router.isReady, searchQuery])
+
+  // Typing updates ?q= after a short pause
+  useEffect(() => {
+    const q = searchInput.trim()
+    if (!router.isReady || q === searchQuery) return
+    const timer = setTimeout(() => {
+      const url = { pathname: '/', query: buildQuery(q, activeTags, tagMatch) }
+      router.replace(url, url, { shallow: true, scroll: false })
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [router, searchInput, searchQuery, buildQuery, activeTags, tagMatch])
+
+  // Fetch synced images from public database API (or search results)
+  const fetchImages = useCallback(async () => {
+    try {
+      setLoading(true)
+      const endpoint = searchQuery ? '/api/search' : '/api/images'
+      const params = new URLSearchParams({ ...filterQuery, page: String(currentPage), limit: String(IMAGES_PER_PAGE) })
+      const res = await fetch(`${endpoint}?${params}`)
+      if (res.ok) {
+        const data = await res.json()
+        setImages(data.images || [])
+        setTotalPages(data.totalPages || 1)
       }
+    } catch (err) {
+      console.error('Failed to fetch images:', err)
+    } finally {
+      setLoading(false)
     }
-    fetchImages()
-  }, [])
+  }, [searchQuery, filterQuery, currentPage])
+
+  useEffect(() => {
+    if (router.isReady) fetchImages()
+  }, [router.isReady, fetchImages])
 
-  // Sync modal state with URL
+  // Tag cloud
   useEffect(() => {
-    const slug = router.query.slug as string | undefined
-    if (slug) {
-      const found = images.find(img => img.slug === slug)
-      if (found && found.slug !== selectedImage?.slug) {
-        // Auto-jump to the page containing this image
-        const imgIdx = images.findIndex(img => img.slug === slug)
-        if (imgIdx >= 0) {
-          const targetPage = Math.floor(imgIdx / IMAGES_PER_PAGE) + 1
-          if (targetPage !== currentPage) setCurrentPage(targetPage)
+    fetch('/api/tags')
+      .then(res => (res.ok ? res.json() : []))
+      .then(setTagCloud)
+      .catch(err => console.error('Failed to fetch tags:', err))
+  }, [])
+
+  // Chip link: toggle the tag in the current filter
+  const toggleTagHref = useCallback((tag: string) => {
+    const tags = activeTags.includes(tag) ? activeTags.filter(t => t !== tag) : [...activeTags, tag]
+    return { pathname: '/', query: buildQuery(searchQuery, tags, tagMatch) }
+  }, [buildQuery, searchQuery, activeTags, tagMatch])
+
+  // Sync modal state with URL — images outside the loaded page are fetched by slug
+  const slug = typeof router.query.slug === 'string' ? router.query.slug : undefined
+  const fetchedSlugRef = useRef<string | null>(null)
+
+  const fetchImageBySlug = useCallback((slug: string) => {
+    fetchedSlugRef.current = slug
+    fetch(`/api/images?slug=${encodeURIComponent(slug)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then((image: ImageData | null) => {
+        if (!image) return
+        setSelectedImage(image)
+        // A former slug resolves to the renamed image — show its current URL
+        if (image.slug !== slug) {
+          fetchedSlugRef.current = image.slug
+          router.replace(
+            { pathname: '/', query: { ...filterQuery, slug: image.slug } },
+            `/p/${image.slug}`,
+            { shallow: true, scroll: false }
+          )
         }
-        setSelectedImage(found)
-      }
-    } else if (selectedImage) {
+      })
+      .catch(err => console.error('Failed to fetch image:', err))
+  }, [router, filterQuery])
+
+  useEffect(() => {
+    if (!slug) {
+      fetchedSlugRef.current = null
       setSelectedImage(null)
     }
-  }, [router.query.slug, images]) // eslint-disable-line react-hooks/exhaustive-deps
+  }, [slug])
 
-  // Pagination
-  const totalPages = Math.max(1, Math.ceil(images.length / IMAGES_PER_PAGE))
-  const paginatedImages = useMemo(() => {
-    const start = (currentPage - 1) * IMAGES_PER_PAGE
-    return images.slice(start, start + IMAGES_PER_PAGE)
-  }, [images, currentPage])
+  useEffect(() => {
+    if (!slug) return
+    const found = images.find(img => img.slug === slug)
+    if (found) {
+      setSelectedImage(current => (current?.slug === slug ? current : found))
+    } else if (!loading && fetchedSlugRef.current !== slug) {
+      fetchImageBySlug(slug)
+    }
+  }, [slug, images, loading, fetchImageBySlug])
 
   const goToPage = useCallback((page: number) => {
-    setCurrentPage(page)
+    setPageState({ filterKey, page })
     window.scrollTo({ top: 0, behavior: 'smooth' })
-  }, [])
+  }, [filterKey])
 
   // Scroll to last viewed image when modal closes
   useEffect(() => {
@@ -116,32 +176,29 @@ export default function Home() {
     e.preventDefault()
     setSelectedImage(image)
     router.push(
-      { pathname: '/', query: { slug: image.slug } },
+      { pathname: '/', query: { ...filterQuery, slug: image.slug } },
       `/p/${image.slug}`,
       { shallow: true, scroll: false }
     )
-  }, [router])
+  }, [router, filterQuery])
 
   // Close modal
   const handleCloseModal = useCallback(() => {
     lastViewedRef.current = selectedImage?.slug ?? null
     setSelectedImage(null)
-    router.push('/', '/', { shallow: true, scroll: false })
-  }, [router, selectedImage])
+    const url = { pathname: '/', query: filterQuery }
+    router.push(url, url, { shallow: true, scroll: false })
+  }, [router, selectedImage, filterQuery])
 
-  // Navigate inside modal — sync page
+  // Navigate inside modal (within the loaded page)
   const handleNavigate = useCallback((image: ImageData) => {
-    const imgIdx = images.findIndex(img => img.id === image.id)
-    if (imgIdx >= 0) {
-      setCurrentPage(Math.floor(imgIdx / IMAGES_PER_PAGE) + 1)
-    }
     setSelectedImage(image)
     router.push(
-      { pathname: '/', query: { slug: image.slug } },
+      { pathname: '/', query: { ...filterQuery, slug: image.slug } },
       `/p/${image.slug}`,
       { shallow: true, scroll: false }
     )
-  }, [router, images])
+  }, [router, filterQuery])
 
   return (
     <LayoutGroup>
@@ -149,6 +206,53 @@ export default function Home() {
 
       <main className="min-h-screen pt-14 sm:pt-20 pb-8 sm:pb-16 px-2.5 sm:px-8 md:px-12 lg:px-16">
         <div className="max-w-[1400px] mx-auto">
+          {/* Search */}
+          <form
+            role="search"
+            className="flex justify-center mb-4 sm:mb-6"
+            onSubmit={(e) => e.preventDefault()}
+          >
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="search"
+              aria-label="Search moments"
+              className="w-full max-w-xs bg-transparent border-b border-neutral-200 focus:border-black outline-none text-center text-[11px] sm:text-xs tracking-[0.15em] py-1.5 placeholder:text-neutral-300 placeholder:uppercase placeholder:tracking-[0.3em] transition-colors duration-150"
+            />
+          </form>
+
+          {/* Tag cloud — chips toggle tags in the filter */}
+          {(tagCloud.length > 0 || activeTags.length > 0) && (
+            <div className="mb-6 sm:mb-10">
+              <TagChips
+                tags={Array.from(new Set([...activeTags, ...tagCloud.slice(0, 24).map(t => t.tag)]))}
+                active={activeTags}
+                href={toggleTagHref}
+              />
+              {activeTags.length > 0 && (
+                <div className="flex items-center justify-center gap-3 mt-2 text-[9px] sm:text-[10px] tracking-[0.2em] uppercase">
+                  {activeTags.length > 1 && (
+                    <Link
+                      href={{ pathname: '/', query: { ...filterQuery, match: tagMatch === 'any' ? 'all' : 'any' } }}
+                      scroll={false}
+                      className="text-neutral-400 hover:text-black transition-colors duration-150"
+                    >
+                      {tagMatch === 'any' ? 'any tag' : 'all tags'}
+                    </Link>
+                  )}
+                  <Link
+                    href={{ pathname: '/', query: buildQuery(searchQuery, [], 'all') }}
+                    scroll={false}
+                    className="text-neutral-400 hover:text-black transition-colors duration-150"
+                  >
+                    clear
+                  </Link>
+                </div>
+              )}
+            </div>
+          )}
+
           {loading ? (
             <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-x-2 gap-y-0 sm:gap-x-4 sm:gap-y-1">
               {Array.from({ length: 8 }).map((_, i) => (
@@ -164,7 +268,7 @@ export default function Home() {
             <>
               {/* Grid — uniform columns, no masonry */}
               <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-x-2 gap-y-0 sm:gap-x-4 sm:gap-y-1">
-                {paginatedImages.map((image) => (
+                {images.map((image) => (
                   <a
                     key={image.id}
                     href={`/p/${image.slug}`}
@@ -232,7 +336,7 @@ export default function Home() {
           ) : (
             <div className="flex flex-col items-center justify-center min-h-[70vh] text-center">
               <p className="text-[10px] tracking-[0.4em] text-neutral-300 uppercase">
-                no moments yet
+                {searchQuery || activeTags.length > 0 ? 'nothing found' : 'no moments yet'}
               </p>
             </div>
           )}
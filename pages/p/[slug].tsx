@@ -1,9 +1,12 @@
 /**
  * Direct-access page for /p/[slug]
  * 
- * When user visits /p/[momentId] directly (bookmark, refresh, share link)
- * this page loads and fetches the specific moment from Locket.
- * When navigating from the grid, index.tsx handles it via shallow routing.
+ * When user visits /p/[slug] directly (bookmark, refresh, share link)
+ * this page loads the image from /api/images?slug=. That lookup also finds
+ * unlisted images, so this is the only place they can be opened; private
+ * ones come back 404. A renamed image's former slug redirects to the current
+ * one. When navigating from the grid, index.tsx handles it
+ * via shallow routing (with prev/next among the loaded page).
  * 
  * Design: yeezy.com extreme minimalism — white backdrop, thin icons,
  * full date/time, "synced from locket" tag.
@@ -12,29 +15,15 @@ import { useRouter } from 'next/router'
 import Head from 'next/head'
 import { motion } from 'framer-motion'
 import { useState, useEffect, useCallback, useRef } from 'react'
-
-interface LocketMoment {
-  id: string
-  user: string
-  imageUrl: string       // Full-resolution image
-  thumbnailUrl: string   // Compressed thumbnail
-  videoUrl: string | null
-  caption: string | null
-  overlays: {
-    background?: { colors?: string[] }
-    textColor?: string
-    icon?: { type?: string; data?: string }
-  } | null
-  createTime: number
-  date: string
-}
+import { aspectRatio, exifSummary, type ImageData } from '@/lib/images'
+import ResponsiveImage from '@/components/ResponsiveImage'
 
 /**
- * Format timestamp → "21.02.2026 — 14:30"
+ * Format an ISO date → "21.02.2026 — 14:30"
  */
-function formatDateTime(ts: number): string {
-  if (!ts) return ''
-  const d = new Date(ts * 1000)
+function formatDateTime(dateStr?: string): string {
+  if (!dateStr) return ''
+  const d = new Date(dateStr)
   if (isNaN(d.getTime())) return ''
   const day = String(d.getDate()).padStart(2, '0')
   const month = String(d.getMonth() + 1).padStart(2, '0')
@@ -48,84 +37,49 @@ export default function MomentPage() {
   const router = useRouter()
   const { slug } = router.query
 
-  const [moment, setMoment] = useState<LocketMoment | null>(null)
-  const [allMoments, setAllMoments] = useState<LocketMoment[]>([])
+  const [image, setImage] = useState<ImageData | null>(null)
   const [loading, setLoading] = useState(true)
   const [notFound, setNotFound] = useState(false)
+  const [mediaLoaded, setMediaLoaded] = useState(false)
 
-  useEffect(() => {
-    if (!slug) return
-
-    const token = localStorage.getItem('locket_token')
-    const localId = localStorage.getItem('locket_local_id')
-
-    if (!token || !localId) {
-      setNotFound(true)
-      setLoading(false)
-      return
-    }
-
-    fetchMoments(token, localId, slug as string)
-  }, [slug])
-
-  const fetchMoments = async (token: string, localId: string, momentId: string) => {
-    try {
-      const res = await fetch('/api/locket/moments', {
-        headers: {
-          'x-locket-token': token,
-          'x-locket-uid': localId,
-        },
-      })
-      const result = await res.json()
-
-      if (res.ok && result.success) {
-        const sorted = (result.data || []).sort(
-          (a: LocketMoment, b: LocketMoment) => b.createTime - a.createTime
-        )
-        setAllMoments(sorted)
+  // The slug on screen — a redirect from a former slug needs no second fetch
+  const loadedSlugRef = useRef<string | null>(null)
 
-        const found = sorted.find((m: LocketMoment) => m.id === momentId)
-        if (found) {
-          setMoment(found)
-        } else {
-          setNotFound(true)
+  useEffect(() => {
+    if (!slug || typeof slug !== 'string') return
+    if (slug === loadedSlugRef.current) return
+    loadedSlugRef.current = slug
+
+    setLoading(true)
+    setNotFound(false)
+    fetch(`/api/images?slug=${encodeURIComponent(slug)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then((found: ImageData | null) => {
+        setImage(found)
+        setNotFound(!found)
+        // Old links to a renamed image land on its current slug
+        if (found && found.slug !== slug) {
+          loadedSlugRef.current = found.slug
+          router.replace(`/p/${found.slug}`, undefined, { shallow: true })
         }
-      } else {
-        setNotFound(true)
-      }
-    } catch {
-      setNotFound(true)
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const currentIdx = moment ? allMoments.findIndex(m => m.id === moment.id) : -1
-  const hasPrev = currentIdx > 0
-  const hasNext = currentIdx >= 0 && currentIdx < allMoments.length - 1
-  const counter = currentIdx >= 0 ? `${currentIdx + 1} / ${allMoments.length}` : ''
+      })
+      .catch(() => setNotFound(true))
+      .finally(() => setLoading(false))
+  }, [slug, router])
 
   const handleBack = useCallback(() => router.push('/'), [router])
-  const goPrev = useCallback(() => {
-    if (hasPrev) router.push(`/p/${allMoments[currentIdx - 1].id}`)
-  }, [hasPrev, allMoments, currentIdx, router])
-  const goNext = useCallback(() => {
-    if (hasNext) router.push(`/p/${allMoments[currentIdx + 1].id}`)
-  }, [hasNext, allMoments, currentIdx, router])
 
-  // Keyboard navigation
+  // Keyboard — Escape goes back
   useEffect(() => {
-    if (!moment) return
+    if (!image) return
     const onKey = (e: KeyboardEvent) => {
       if (e.key === 'Escape') handleBack()
-      else if (e.key === 'ArrowLeft') goPrev()
-      else if (e.key === 'ArrowRight') goNext()
     }
     window.addEventListener('keydown', onKey)
     return () => window.removeEventListener('keydown', onKey)
-  }, [moment, handleBack, goPrev, goNext])
+  }, [image, handleBack])
 
-  // Touch swipe — horizontal for nav, vertical down to go back
+  // Touch swipe — vertical down to go back
   const touchStartRef = useRef<{ x: number; y: number; t: number } | null>(null)
 
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
@@ -148,16 +102,10 @@ export default function MomentPage() {
 
     if (dt > maxTime) return
 
-    if (absDx > absDy && absDx > minSwipe) {
-      if (dx < 0) goNext()
-      else goPrev()
-      return
-    }
-
     if (absDy > absDx && dy > minSwipe) {
       handleBack()
     }
-  }, [goNext, goPrev, handleBack])
+  }, [handleBack])
 
   // Lock body scroll
   useEffect(() => {
@@ -179,7 +127,7 @@ export default function MomentPage() {
     )
   }
 
-  if (notFound || !moment) {
+  if (notFound || !image) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-white gap-6">
         <p className="text-[10px] tracking-[0.4em] text-neutral-300 uppercase">not found</p>
@@ -193,14 +141,18 @@ export default function MomentPage() {
     )
   }
 
-  const dateTime = formatDateTime(moment.createTime)
+  const dateTime = formatDateTime(image.created_at)
+  const camera = exifSummary(image.exif)
 
   return (
     <>
       <Head>
-        <title>{moment.caption || 'Locket Moment'} — HEGIAHE</title>
-        <meta property="og:image" content={moment.imageUrl || moment.thumbnailUrl} />
-        <meta property="og:title" content={moment.caption || 'HEGIAHE'} />
+        <title>{image.caption || image.title || 'Locket Moment'} — HEGIAHE</title>
+        <meta property="og:image" content={image.image_url || image.thumbnail_url} />
+        {image.width > 0 && <meta property="og:image:width" content={String(image.width)} />}
+        {image.height > 0 && <meta property="og:image:height" content={String(image.height)} />}
+        <meta property="og:title" content={image.caption || image.title || 'HEGIAHE'} />
+        {image.visibility === 'unlisted' && <meta name="robots" content="noindex" />}
       </Head>
 
       <div
@@ -208,7 +160,7 @@ export default function MomentPage() {
         onTouchStart={handleTouchStart}
         onTouchEnd={handleTouchEnd}
       >
-        {/* Top bar — close + counter */}
+        {/* Top bar — close */}
         <div
           className="absolute top-0 left-0 right-0 z-10 flex items-center justify-between px-4 sm:px-5 h-12 sm:h-16"
           style={{ paddingTop: 'env(safe-area-inset-top, 0px)' }}
@@ -222,39 +174,8 @@ export default function MomentPage() {
               <path d="M18 6L6 18M6 6l12 12"/>
             </svg>
           </button>
-
-          {counter && (
-            <span className="text-[10px] tracking-[0.2em] text-neutral-400 font-light tabular-nums">
-              {counter}
-            </span>
-          )}
         </div>
 
-        {/* Navigation arrows — hidden on mobile, visible on sm+ */}
-        {hasPrev && (
-          <button
-            onClick={goPrev}
-            className="hidden sm:flex absolute top-1/2 -translate-y-1/2 left-4 sm:left-6 z-10 w-12 h-12 items-center justify-center text-black hover:opacity-50 transition-opacity duration-200"
-            aria-label="Previous"
-          >
-            <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-              <path d="M15 18l-6-6 6-6"/>
-            </svg>
-          </button>
-        )}
-
-        {hasNext && (
-          <button
-            onClick={goNext}
-            className="hidden sm:flex absolute top-1/2 -translate-y-1/2 right-4 sm:right-6 z-10 w-12 h-12 items-center justify-center text-black hover:opacity-50 transition-opacity duration-200"
-            aria-label="Next"
-          >
-            <svg width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-              <path d="M9 18l6-6-6-6"/>
-            </svg>
-          </button>
-        )}
-
         {/* Media — centered */}
         <div
           className="h-full flex items-center justify-center px-3 sm:px-6"
@@ -266,15 +187,26 @@ export default function MomentPage() {
             transition={{ duration: 0.7, ease: [0.32, 0.72, 0, 1] }}
             className="relative w-full max-w-5xl"
             style={{
-              aspectRatio: '1 / 1',
+              aspectRatio: aspectRatio(image),
               maxHeight: 'calc(100dvh - 180px)',
+              maxWidth: `min(64rem, calc((100dvh - 180px) * ${aspectRatio(image)}))`,
             }}
           >
-            {moment.videoUrl ? (
+            {image.placeholder && (
+              <img
+                src={image.placeholder}
+                alt=""
+                aria-hidden
+                className={`absolute inset-0 w-full h-full object-contain blur-xl transition-opacity duration-500 ease-out ${mediaLoaded ? 'opacity-0' : 'opacity-100'}`}
+                draggable={false}
+              />
+            )}
+
+            {image.video_url ? (
               <video
-                key={moment.videoUrl}
-                src={moment.videoUrl}
-                poster={moment.imageUrl || moment.thumbnailUrl}
+                key={image.video_url}
+                src={image.video_url}
+                poster={image.video?.poster_url || image.image_url || image.thumbnail_url}
                 autoPlay
                 loop
                 muted
@@ -282,19 +214,23 @@ export default function MomentPage() {
                 controlsList="nodownload nofullscreen noremoteplayback"
                 disablePictureInPicture
                 onContextMenu={(e) => e.preventDefault()}
+                onLoadedData={() => setMediaLoaded(true)}
                 className="absolute inset-0 w-full h-full object-contain"
               />
             ) : (
-              <img
-                src={moment.imageUrl || moment.thumbnailUrl}
-                alt={moment.caption || ''}
-                className="absolute inset-0 w-full h-full object-contain"
+              <ResponsiveImage
+                image={image}
+                src={image.image_url || image.thumbnail_url || ''}
+                sizes="(min-width: 1024px) 1024px, 100vw"
+                alt={image.caption || ''}
+                className={`absolute inset-0 w-full h-full object-contain transition-opacity duration-500 ease-out ${mediaLoaded || !image.placeholder ? 'opacity-100' : 'opacity-0'}`}
                 draggable={false}
+                onLoad={() => setMediaLoaded(true)}
                 onContextMenu={(e) => e.preventDefault()}
                 onError={(e) => {
                   const target = e.target as HTMLImageElement
-                  if (moment.thumbnailUrl && target.src !== moment.thumbnailUrl) {
-                    target.src = moment.thumbnailUrl
+                  if (image.thumbnail_url && target.src !== image.thumbnail_url) {
+                    target.src = image.thumbnail_url
                   }
                 }}
               />
@@ -312,12 +248,12 @@ export default function MomentPage() {
         >
           <div className="flex flex-col items-center gap-1 sm:gap-1.5 px-4">
             {/* Caption */}
-            {moment.caption && (
+            {image.caption && (
               <p className="text-[11px] sm:text-[12px] font-normal text-black tracking-wide text-center max-w-md">
-                {moment.overlays?.icon?.data && (
-                  <span className="mr-1.5">{moment.overlays.icon.data}</span>
+                {image.overlays?.icon?.data && (
+                  <span className="mr-1.5">{image.overlays.icon.data}</span>
                 )}
-                {moment.caption}
+                {image.caption}
               </p>
             )}
 
@@ -328,10 +264,18 @@ export default function MomentPage() {
               </p>
             )}
 
+            {camera && (
+              <p className="text-[8px] sm:text-[9px] text-neutral-400 tracking-[0.1em] font-light">
+                {camera}
+              </p>
+            )}
+
             {/* Source tag */}
-            <p className="text-[8px] sm:text-[9px] tracking-[0.2em] text-neutral-300 uppercase font-medium mt-0.5 sm:mt-1">
-              synced from locket
-            </p>
+            {image.source === 'locket' && (
+              <p className="text-[8px] sm:text-[9px] tracking-[0.2em] text-neutral-300 uppercase font-medium mt-0.5 sm:mt-1">
+                synced from locket
+              </p>
+            )}
           </div>
         </motion.div>
       </div>
@@ -0,0 +1,45 @@
+/**
+ * Report or apply gallery schema migrations through the running app.
+ *
+ *   npm run db:migrate              # show stored/latest version and pending migrations
+ *   npm run db:migrate -- --apply   # apply them
+ *
+ * Uses NEXT_PUBLIC_API_URL (default http://localhost:3000) and ADMIN_PASSWORD.
+ */
+const apply = process.argv.includes('--apply')
+const baseUrl = process.env.NEXT_PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3000}`
+const adminPassword = process.env.ADMIN_PASSWORD || 'admin123'
+
+async function main() {
+  const res = await fetch(`${baseUrl}/api/admin/migrations`, {
+    method: apply ? 'POST' : 'GET',
+    headers: { Authorization: `Bearer ${adminPassword}` },
+  })
+  const result = await res.json()
+
+  if (!res.ok) {
+    console.error('❌', result.error || `Request failed (${res.status})`)
+    process.exit(1)
+  }
+
+  console.log(`Backend: ${result.backend}`)
+  console.log(`Schema version: ${result.schemaVersion} (latest ${result.latestVersion})`)
+
+  if (apply) {
+    for (const m of result.applied) console.log(`✓ ${m.version} ${m.name}`)
+    console.log(`✅ Applied ${result.applied.length} migrations to ${result.migratedCount} images`)
+    return
+  }
+
+  if (result.pending.length === 0) {
+    console.log('✅ Up to date')
+    return
+  }
+  for (const m of result.pending) console.log(`• ${m.version} ${m.name} — ${m.description}`)
+  console.log('Run with --apply to migrate')
+}
+
+main().catch((error) => {
+  console.error('❌', error.message)
+  process.exit(1)
+})
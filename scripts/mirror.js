@@ -0,0 +1,57 @@
+/**
+ * Download the media of already-synced Locket images into public/uploads
+ * and probe their real dimensions, through the running app (see lib/mirror
+ * and lib/probe).
+ *
+ *   npm run locket:mirror                 # mirror everything still on the Locket CDN
+ *   npm run locket:mirror -- --limit 20   # at most 20 per request
+ *   npm run locket:mirror -- --dry-run    # only count them
+ *
+ * Uses NEXT_PUBLIC_API_URL (default http://localhost:3000) and ADMIN_PASSWORD.
+ */
+const dryRun = process.argv.includes('--dry-run')
+const limitIndex = process.argv.indexOf('--limit')
+const limit = limitIndex === -1 ? 10 : Number(process.argv[limitIndex + 1])
+const baseUrl = process.env.NEXT_PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3000}`
+const adminPassword = process.env.ADMIN_PASSWORD || 'admin123'
+
+async function request(method, body) {
+  const res = await fetch(`${baseUrl}/api/admin/mirror`, {
+    method,
+    headers: { Authorization: `Bearer ${adminPassword}`, 'Content-Type': 'application/json' },
+    body: body && JSON.stringify(body),
+  })
+  const result = await res.json()
+  if (!res.ok) throw new Error(result.error || `Request failed (${res.status})`)
+  return result
+}
+
+async function main() {
+  if (!Number.isInteger(limit) || limit < 1) throw new Error('--limit must be a positive integer')
+
+  let { pendingCount, unprobedCount } = await request('GET')
+  console.log(`${pendingCount} images still on the Locket CDN, ${unprobedCount} without dimensions`)
+  if (dryRun || pendingCount + unprobedCount === 0) return
+
+  // Failed images stay first in line, so each batch grows to cover them
+  // again; done once a batch has covered every pending image
+  let mirrored = 0
+  let probed = 0
+  let failed = 0
+  for (let done = false; !done;) {
+    done = limit + failed >= pendingCount
+    const result = await request('POST', { limit: limit + failed })
+    mirrored += result.mirroredCount
+    probed += result.probedCount
+    failed = result.failedCount
+    pendingCount = result.pendingCount
+    console.log(`✓ ${mirrored} mirrored, ${probed} probed, ${pendingCount} left`)
+  }
+
+  console.log(failed > 0 ? `⚠️  ${failed} images could not be downloaded (see server log)` : '✅ Done')
+}
+
+main().catch((error) => {
+  console.error('❌', error.message)
+  process.exit(1)
+})
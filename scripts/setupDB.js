@@ -1,38 +1,24 @@
-const Database = require('better-sqlite3')
-const path = require('path')
-const fs = require('fs')
+/**
+ * Create the SQLite database (DATABASE_PATH, default database/hegiahe.db).
+ *
+ * Opens the sqlite storage backend, which owns the schema: tables and
+ * columns are created or added, and an existing database/images.json
+ * (JSON_DATABASE_PATH) is imported. Run through tsx so it can load lib/.
+ */
+process.env.STORAGE_BACKEND = 'sqlite'
 
-const dbDir = path.join(process.cwd(), 'database')
-const dbPath = process.env.DATABASE_PATH || path.join(dbDir, 'hegiahe.db')
+const { getStorage } = require('../lib/storage')
+const { DEFAULT_SQLITE_PATH } = require('../lib/storage/sqlite')
 
-// Create database directory if it doesn't exist
-if (!fs.existsSync(dbDir)) {
-  fs.mkdirSync(dbDir, { recursive: true })
-}
-
-const db = new Database(dbPath)
-
-// Create images table
-const createTableSQL = `
-  CREATE TABLE IF NOT EXISTS images (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    slug TEXT UNIQUE NOT NULL,
-    title TEXT NOT NULL,
-    description TEXT,
-    image_url TEXT NOT NULL,
-    thumbnail_url TEXT,
-    width INTEGER NOT NULL,
-    height INTEGER NOT NULL,
-    file_size INTEGER,
-    order_index INTEGER DEFAULT 0,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  )
-`
+async function main() {
+  const storage = getStorage()
+  const images = await storage.images.list()
 
-db.exec(createTableSQL)
-
-console.log('✅ Database initialized at:', dbPath)
-console.log('✅ Images table created successfully')
+  console.log('✅ Database initialized at:', process.env.DATABASE_PATH || DEFAULT_SQLITE_PATH)
+  console.log(`✅ Tables ready (${images.length} images)`)
+}
 
-db.close()
+main().catch(error => {
+  console.error('❌', error.message || error)
+  process.exit(1)
+})
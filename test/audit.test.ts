@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { getImageHistory } from '@/lib/audit'
+import { createImage, getImageBySlug, renameImageSlug, revertImage, updateImage } from '@/lib/db'
+import type { StorageBackend } from '@/lib/storage'
+import { newImage, useMemoryStorage } from './helpers'
+
+describe('revertImage', () => {
+  let storage: StorageBackend
+  before(() => {
+    storage = useMemoryStorage()
+  })
+
+  it('undoes every change made after the chosen event, slug included', async () => {
+    const image = await createImage(newImage('alpha', { title: 'A' }))
+    await updateImage(image.id, { title: 'B' })
+    await renameImageSlug(image.id, 'beta')
+    await updateImage(image.id, { title: 'C', description: 'later' })
+
+    const created = (await getImageHistory(image.id)).find(event => event.action === 'create')
+    assert.ok(created)
+
+    const reverted = await revertImage(image.id, created.id)
+    assert.equal(reverted?.title, 'A')
+    assert.equal(reverted?.description, undefined)
+    assert.equal(reverted?.slug, 'alpha')
+    // The slug came back like a rename, so links to the newer one still work
+    assert.equal((await storage.redirects.findBy('from_slug', 'beta'))?.to_slug, 'alpha')
+    assert.equal((await getImageBySlug('beta'))?.id, image.id)
+
+    const [latest] = await getImageHistory(image.id)
+    assert.equal(latest.action, 'revert')
+    assert.deepEqual(latest.details, { revision: created.id })
+    assert.deepEqual(latest.changes.title, { from: 'C', to: 'A' })
+  })
+
+  it('keeps the current slug when another image has taken the old one', async () => {
+    const image = await createImage(newImage('gamma', { title: 'Old' }))
+    const [created] = await getImageHistory(image.id)
+    await renameImageSlug(image.id, 'delta')
+    await updateImage(image.id, { title: 'New' })
+
+    // Only possible by editing the store by hand — renames refuse former slugs
+    const redirect = await storage.redirects.findBy('from_slug', 'gamma')
+    assert.ok(redirect)
+    await storage.redirects.remove([redirect.id])
+    const other = await createImage(newImage('gamma'))
+    assert.equal(other.slug, 'gamma')
+
+    const reverted = await revertImage(image.id, created.id)
+    assert.equal(reverted?.title, 'Old')
+    assert.equal(reverted?.slug, 'delta')
+    assert.equal((await getImageBySlug('gamma'))?.id, other.id)
+  })
+
+  it('returns null for an unknown image or event', async () => {
+    const image = await createImage(newImage('epsilon'))
+    assert.equal(await revertImage(image.id, 9999), null)
+    assert.equal(await revertImage(9999, 1), null)
+  })
+})
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict'
+import { randomBytes } from 'crypto'
+import fs from 'fs'
+import { after, before, describe, it } from 'node:test'
+import { Readable } from 'stream'
+import {
+  completeUploadSession,
+  createUploadSession,
+  deleteUploadSession,
+  getUploadSession,
+  releaseUploadSession,
+  writeUploadPart,
+  type UploadSessionInfo,
+} from '@/lib/chunked'
+import type { UploadOptions } from '@/lib/ingest'
+import { removeTempDirs, tempDir } from './helpers'
+
+const CHUNK = 256 * 1024
+const options: UploadOptions = { tags: [], visibility: 'public', rejectDuplicates: false, transcode: false }
+
+function openSession(size: number): UploadSessionInfo {
+  const session = createUploadSession({ filename: 'photo.jpg', size, mime_type: 'image/jpeg', chunk_size: CHUNK }, options)
+  assert.ok(!('error' in session))
+  return session
+}
+
+/** A request body, as the route passes it */
+function body(...chunks: Buffer[]): Readable {
+  return Readable.from(chunks)
+}
+
+async function sendParts(session: UploadSessionInfo, data: Buffer, parts: number[]): Promise<void> {
+  for (const index of parts) {
+    const result = await writeUploadPart(session.id, index, body(data.subarray(index * CHUNK, (index + 1) * CHUNK)))
+    assert.ok(result && !('error' in result))
+  }
+}
+
+describe('chunked uploads', () => {
+  before(() => {
+    process.env.UPLOAD_SESSION_DIR = tempDir('uploads')
+  })
+  after(removeTempDirs)
+
+  it('validates the session up front', () => {
+    assert.deepEqual(createUploadSession({ filename: '', size: 10 }, options), { error: 'filename is required', status: 400 })
+    assert.equal((createUploadSession({ filename: 'a.jpg', size: 0 }, options) as { status: number }).status, 400)
+    assert.equal((createUploadSession({ filename: 'a.jpg', size: 10, chunk_size: 1 }, options) as { status: number }).status, 400)
+  })
+
+  it('only counts parts received whole', async () => {
+    const session = openSession(CHUNK * 2 + 100)
+    assert.equal(session.chunk_count, 3)
+
+    const short = await writeUploadPart(session.id, 0, body(Buffer.alloc(10)))
+    assert.deepEqual(short, { error: `Part 0 must be ${CHUNK} bytes`, status: 400 })
+    assert.equal((await writeUploadPart(session.id, 3, body(Buffer.alloc(100))) as { status: number }).status, 400)
+    assert.equal(await writeUploadPart('0'.repeat(32), 0, body(Buffer.alloc(100))), null)
+
+    const last = await writeUploadPart(session.id, 2, body(Buffer.alloc(60), Buffer.alloc(40)))
+    assert.ok(last && !('error' in last))
+    assert.deepEqual(last.received, [2])
+    assert.equal(last.received_bytes, 100)
+    assert.deepEqual(await completeUploadSession(session.id), { missing: [0, 1] })
+  })
+
+  it('joins the parts in order, once at a time, and keeps them until deleted', async () => {
+    const data = randomBytes(CHUNK * 2 + 100)
+    const session = openSession(data.length)
+    await sendParts(session, data, [2, 0, 1])
+
+    const completed = await completeUploadSession(session.id)
+    assert.ok(completed && 'file' in completed)
+    assert.deepEqual(fs.readFileSync(completed.file.filepath), data)
+    assert.equal(completed.file.originalFilename, 'photo.jpg')
+    assert.deepEqual(completed.options, options)
+
+    // A second request while the first is still ingesting
+    assert.deepEqual(await completeUploadSession(session.id), { busy: true })
+    assert.equal(getUploadSession(session.id)?.completing, true)
+
+    // A failed ingest: the joined file goes, the parts stay for a retry
+    releaseUploadSession(session.id)
+    assert.equal(fs.existsSync(completed.file.filepath), false)
+    const released = getUploadSession(session.id)
+    assert.equal(released?.completing, false)
+    assert.deepEqual(released?.received, [0, 1, 2])
+
+    const retried = await completeUploadSession(session.id)
+    assert.ok(retried && 'file' in retried)
+    assert.deepEqual(fs.readFileSync(retried.file.filepath), data)
+
+    assert.equal(deleteUploadSession(session.id), true)
+    assert.equal(getUploadSession(session.id), null)
+    assert.equal(deleteUploadSession(session.id), false)
+  })
+})
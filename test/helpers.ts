@@ -0,0 +1,45 @@
+/**
+ * Shared setup for the test files — each runs in its own process, so the
+ * storage instance and the env set here don't leak between files
+ */
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type { NewImageData } from '@/lib/images'
+import type { StorageBackend } from '@/lib/storage'
+import { createMemoryBackend } from '@/lib/storage/memory'
+
+/** Put a backend where getStorage() finds it */
+export function useStorage(storage: StorageBackend): StorageBackend {
+  (globalThis as unknown as { __galleryStorage?: StorageBackend }).__galleryStorage = storage
+  return storage
+}
+
+export function useMemoryStorage(): StorageBackend {
+  return useStorage(createMemoryBackend())
+}
+
+/** A fresh directory under the OS temp dir, removed with removeTempDirs */
+const tempDirs: string[] = []
+
+export function tempDir(prefix: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), `gallery-${prefix}-`))
+  tempDirs.push(dir)
+  return dir
+}
+
+export function removeTempDirs(): void {
+  for (const dir of tempDirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true })
+}
+
+export function newImage(slug: string, overrides: Partial<NewImageData> = {}): NewImageData {
+  return {
+    slug,
+    image_url: `https://cdn.example.com/${slug}.jpg`,
+    title: slug,
+    width: 800,
+    height: 600,
+    order_index: 0,
+    ...overrides,
+  }
+}
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { after, before, describe, it } from 'node:test'
+import { getMigrationStatus, runMigrations } from '@/lib/db'
+import { CURRENT_SCHEMA_VERSION, migrateImage, pendingMigrations } from '@/lib/migrations'
+import { listSnapshots } from '@/lib/snapshots'
+import { createJsonBackend } from '@/lib/storage/json'
+import { createMemoryBackend } from '@/lib/storage/memory'
+import { removeTempDirs, tempDir, useStorage } from './helpers'
+
+/** A record as the first version of the app stored it */
+const legacyRecord = {
+  id: '3',
+  slug: 'locket-abc123',
+  imageUrl: 'https://cdn.example.com/a.jpg',
+  thumbnailUrl: 'https://cdn.example.com/a-thumb.jpg',
+  title: 'Locket 21/2/2026',
+  created_at: 1700000000000,
+}
+
+describe('migrateImage', () => {
+  it('brings a version 0 record to the current shape', () => {
+    const image = migrateImage(legacyRecord, 0)
+
+    assert.equal(image.id, 3)
+    assert.equal(image.image_url, 'https://cdn.example.com/a.jpg')
+    assert.equal(image.thumbnail_url, 'https://cdn.example.com/a-thumb.jpg')
+    assert.equal('imageUrl' in image, false)
+    assert.equal(image.created_at, new Date(1700000000000).toISOString())
+    assert.equal(image.updated_at, image.created_at)
+    assert.equal(image.source, 'locket')
+    assert.equal(image.visibility, 'public')
+    assert.equal(image.locket_moment_id, 'abc123')
+    // A generated placeholder title is not a caption
+    assert.equal(image.caption, undefined)
+  })
+
+  it('is idempotent', () => {
+    const once = migrateImage(legacyRecord, 0)
+    assert.deepEqual(migrateImage(once, 0), once)
+  })
+
+  it('never overwrites a value that is set', () => {
+    const image = migrateImage({ ...legacyRecord, description: '', visibility: 'private', source: 'upload' }, 0)
+    assert.equal(image.description, '')
+    assert.equal(image.visibility, 'private')
+    assert.equal(image.source, 'upload')
+  })
+
+  it('only runs migrations newer than the stored version', () => {
+    assert.equal(pendingMigrations(CURRENT_SCHEMA_VERSION).length, 0)
+    assert.deepEqual(pendingMigrations(5).map(m => m.version), [6, 7])
+    // Up to date records pass through untouched
+    const raw = { id: 1, slug: 'x', title: 'x' }
+    assert.deepEqual(migrateImage(raw, CURRENT_SCHEMA_VERSION), raw)
+  })
+})
+
+describe('runMigrations', () => {
+  before(() => {
+    process.env.SNAPSHOT_DIR = tempDir('snapshots')
+  })
+  after(removeTempDirs)
+
+  it('persists migrated records and bumps the schema version after a snapshot', async () => {
+    const storage = useStorage(createMemoryBackend({ images: [legacyRecord], nextId: 4, meta: { schemaVersion: 0 } }))
+
+    const status = await getMigrationStatus()
+    assert.equal(status.schemaVersion, 0)
+    assert.equal(status.pending.length, CURRENT_SCHEMA_VERSION)
+
+    const result = await runMigrations()
+    assert.equal(result.migratedCount, 1)
+    assert.equal(result.applied.length, CURRENT_SCHEMA_VERSION)
+    assert.equal(await storage.getMeta('schemaVersion'), CURRENT_SCHEMA_VERSION)
+    assert.deepEqual(listSnapshots().map(s => s.reason), ['migrate'])
+
+    const [image] = await storage.images.list()
+    assert.equal(image.id, 3)
+    assert.equal(image.locket_moment_id, 'abc123')
+
+    const events = await storage.events.list()
+    assert.equal(events.at(-1)?.action, 'migrate')
+    assert.deepEqual((await runMigrations()).applied, [])
+  })
+
+  it('reads a legacy JSON array file migrated and writes it back in the current shape', async () => {
+    const file = path.join(tempDir('json'), 'images.json')
+    fs.writeFileSync(file, JSON.stringify([legacyRecord]))
+    const storage = createJsonBackend(file)
+
+    const [image] = await storage.images.list()
+    assert.equal(image.image_url, 'https://cdn.example.com/a.jpg')
+
+    await storage.images.update([{ id: 3, changes: { title: 'Renamed' } }])
+    const stored = JSON.parse(fs.readFileSync(file, 'utf8'))
+    assert.equal(stored.meta.schemaVersion, CURRENT_SCHEMA_VERSION)
+    assert.equal(stored.images[0].title, 'Renamed')
+    assert.equal(stored.images[0].image_url, 'https://cdn.example.com/a.jpg')
+    assert.equal(stored.images[0].imageUrl, undefined)
+  })
+})
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { readMp4 } from '@/lib/probe'
+
+/** Seconds between the MP4 epoch (1904) and the Unix epoch */
+const MP4_EPOCH_OFFSET = 2_082_844_800
+const RECORDED = Date.UTC(2026, 1, 21, 8, 30) / 1000
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload)
+  const header = Buffer.alloc(8)
+  header.writeUInt32BE(body.length + 8)
+  header.write(type, 4, 'latin1')
+  return Buffer.concat([header, body])
+}
+
+/** A box with a 64-bit size, as large mdat boxes are written */
+function largeBox(type: string, payload: Buffer): Buffer {
+  const header = Buffer.alloc(16)
+  header.writeUInt32BE(1)
+  header.write(type, 4, 'latin1')
+  header.writeBigUInt64BE(BigInt(payload.length + 16), 8)
+  return Buffer.concat([header, payload])
+}
+
+function ftyp(brand: string): Buffer {
+  return box('ftyp', Buffer.from(`${brand}\0\0\0\0isom`, 'latin1'))
+}
+
+function mvhd(timescale: number, duration: number, version: 0 | 1 = 0): Buffer {
+  const data = Buffer.alloc(version === 1 ? 112 : 100)
+  data[0] = version
+  if (version === 1) {
+    data.writeBigUInt64BE(BigInt(RECORDED + MP4_EPOCH_OFFSET), 4)
+    data.writeUInt32BE(timescale, 20)
+    data.writeBigUInt64BE(BigInt(duration), 24)
+  } else {
+    data.writeUInt32BE(RECORDED + MP4_EPOCH_OFFSET, 4)
+    data.writeUInt32BE(timescale, 12)
+    data.writeUInt32BE(duration, 16)
+  }
+  return box('mvhd', data)
+}
+
+/** Track header; `sideways` stores the 90° rotation phones use for portrait video */
+function trak(width: number, height: number, sideways = false): Buffer {
+  const data = Buffer.alloc(84)
+  const matrix = 40
+  data.writeInt32BE(sideways ? 0 : 0x10000, matrix)
+  data.writeInt32BE(sideways ? 0x10000 : 0, matrix + 4)
+  data.writeInt32BE(sideways ? -0x10000 : 0, matrix + 12)
+  data.writeInt32BE(sideways ? 0 : 0x10000, matrix + 16)
+  data.writeInt32BE(0x40000000, matrix + 32)
+  data.writeUInt32BE(width * 65536, matrix + 36)
+  data.writeUInt32BE(height * 65536, matrix + 40)
+  return box('trak', box('tkhd', data))
+}
+
+describe('readMp4', () => {
+  it('reads duration, frame size and recording time', () => {
+    const file = Buffer.concat([
+      ftyp('isom'),
+      largeBox('mdat', Buffer.alloc(64)),
+      box('moov', mvhd(600, 4500), trak(0, 0), trak(1920, 1080)),
+    ])
+    assert.deepEqual(readMp4(file), {
+      duration: 7.5,
+      width: 1920,
+      height: 1080,
+      mime_type: 'video/mp4',
+      created_at: new Date(RECORDED * 1000).toISOString(),
+    })
+  })
+
+  it('swaps the frame size of sideways video', () => {
+    const file = Buffer.concat([ftyp('isom'), box('moov', mvhd(1000, 3000), trak(1920, 1080, true))])
+    assert.deepEqual([readMp4(file)?.width, readMp4(file)?.height], [1080, 1920])
+  })
+
+  it('reads version 1 movie headers and QuickTime brands', () => {
+    const file = Buffer.concat([ftyp('qt  '), box('moov', mvhd(90000, 270000, 1), trak(720, 1280))])
+    const video = readMp4(file)
+    assert.equal(video?.duration, 3)
+    assert.equal(video?.mime_type, 'video/quicktime')
+    assert.equal(video?.created_at, new Date(RECORDED * 1000).toISOString())
+  })
+
+  it('returns null for files without a movie header', () => {
+    assert.equal(readMp4(Buffer.from('not a video at all')), null)
+    assert.equal(readMp4(Buffer.concat([ftyp('isom'), box('moov', trak(1920, 1080))])), null)
+    // A box claiming more bytes than the file has ends the scan
+    const truncated = box('moov', mvhd(600, 4500)).subarray(0, 60)
+    assert.equal(readMp4(truncated), null)
+  })
+})
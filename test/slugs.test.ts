@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict'
+import path from 'path'
+import { after, before, describe, it } from 'node:test'
+import { createImage, getImageBySlug, renameImageSlug } from '@/lib/db'
+import type { StorageBackend } from '@/lib/storage'
+import { createJsonBackend } from '@/lib/storage/json'
+import { createMemoryBackend } from '@/lib/storage/memory'
+import { createSqliteBackend } from '@/lib/storage/sqlite'
+import { newImage, removeTempDirs, tempDir, useStorage } from './helpers'
+
+const backends: Record<string, () => StorageBackend> = {
+  memory: () => createMemoryBackend(),
+  json: () => createJsonBackend(path.join(tempDir('json'), 'images.json')),
+  sqlite: () => {
+    const dir = tempDir('sqlite')
+    return createSqliteBackend(path.join(dir, 'gallery.db'), path.join(dir, 'images.json'))
+  },
+}
+
+after(removeTempDirs)
+
+for (const [name, create] of Object.entries(backends)) {
+  describe(`slugs (${name})`, () => {
+    let storage: StorageBackend
+    before(() => {
+      storage = useStorage(create())
+    })
+
+    it('gives concurrently created images distinct slugs', async () => {
+      const created = await Promise.all(Array.from({ length: 5 }, () => createImage(newImage('sunset'))))
+      assert.deepEqual(
+        created.map(img => img.slug).sort(),
+        ['sunset', 'sunset-2', 'sunset-3', 'sunset-4', 'sunset-5']
+      )
+    })
+
+    it('keeps every former slug resolving after renames', async () => {
+      const image = await createImage(newImage('first'))
+
+      const renamed = await renameImageSlug(image.id, 'second')
+      assert.ok(renamed && 'image' in renamed)
+      assert.equal(renamed.image.slug, 'second')
+      assert.equal((await getImageBySlug('first'))?.id, image.id)
+
+      await renameImageSlug(image.id, 'third')
+      const redirects = await storage.redirects.list()
+      assert.deepEqual(
+        redirects.filter(r => r.to_slug === 'third').map(r => r.from_slug).sort(),
+        ['first', 'second']
+      )
+      assert.equal((await getImageBySlug('first'))?.slug, 'third')
+    })
+
+    it('drops the redirect when an image takes back a former slug', async () => {
+      const image = await createImage(newImage('back'))
+      await renameImageSlug(image.id, 'forth')
+      await renameImageSlug(image.id, 'back')
+
+      assert.equal(await storage.redirects.findBy('from_slug', 'back'), null)
+      assert.equal((await storage.redirects.findBy('from_slug', 'forth'))?.to_slug, 'back')
+      assert.equal((await getImageBySlug('forth'))?.slug, 'back')
+    })
+
+    it('refuses slugs that belong, or used to belong, to another image', async () => {
+      const owner = await createImage(newImage('owned'))
+      const other = await createImage(newImage('other'))
+      await renameImageSlug(owner.id, 'owned-now')
+
+      assert.deepEqual(await renameImageSlug(other.id, 'owned-now'), { taken: true })
+      assert.deepEqual(await renameImageSlug(other.id, 'owned'), { taken: true })
+      // New images skip former slugs too
+      assert.equal((await createImage(newImage('owned'))).slug, 'owned-2')
+      assert.equal(await renameImageSlug(9999, 'anything'), null)
+    })
+
+    it('leaves the store unchanged when a transaction throws', async () => {
+      const before = await storage.images.list()
+      await assert.rejects(storage.transaction(tx => {
+        tx.images.insert([{ ...newImage('lost'), created_at: '', updated_at: '' }])
+        throw new Error('abort')
+      }), /abort/)
+      assert.deepEqual(await storage.images.list(), before)
+    })
+  })
+}
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, it } from 'node:test'
+import { createAlbum, createImage, deleteImage, getAlbumById, renameImageSlug, updateAlbum, updateImage } from '@/lib/db'
+import { createSnapshot, diffSnapshot, listSnapshots, restoreSnapshot } from '@/lib/snapshots'
+import type { StorageBackend } from '@/lib/storage'
+import { newImage, removeTempDirs, tempDir, useMemoryStorage } from './helpers'
+
+describe('snapshots', () => {
+  let storage: StorageBackend
+  before(() => {
+    process.env.SNAPSHOT_DIR = tempDir('snapshots')
+    storage = useMemoryStorage()
+  })
+  after(removeTempDirs)
+
+  it('restores images, albums and redirects in one go, after a backup', async () => {
+    const kept = await createImage(newImage('kept', { title: 'Kept' }))
+    const removed = await createImage(newImage('removed'))
+    const album = await createAlbum({ slug: 'trip', title: 'Trip', image_ids: [kept.id, removed.id], order_index: 0 })
+    await renameImageSlug(kept.id, 'kept-renamed')
+    const snapshot = await createSnapshot('manual')
+    assert.equal(snapshot.imageCount, 2)
+
+    await updateImage(kept.id, { title: 'Edited' })
+    await renameImageSlug(kept.id, 'kept-again')
+    await deleteImage(removed.id)
+    await updateAlbum(album.id, { image_ids: [kept.id] })
+    await createImage(newImage('added'))
+
+    const diff = await diffSnapshot(snapshot.id)
+    assert.ok(diff)
+    assert.deepEqual(diff.added.map(img => img.slug).sort(), ['added', 'kept-again'])
+    assert.deepEqual(diff.removed.map(img => img.slug).sort(), ['kept-renamed', 'removed'])
+
+    const result = await restoreSnapshot(snapshot.id)
+    assert.ok(result)
+    assert.equal(result.restoredCount, 2)
+    assert.equal(result.backup.reason, 'restore')
+    assert.ok(listSnapshots().some(s => s.id === result.backup.id))
+
+    const images = await storage.images.list()
+    assert.deepEqual(images.map(img => [img.slug, img.title]), [['kept-renamed', 'Kept'], ['removed', 'removed']])
+    assert.deepEqual((await getAlbumById(album.id))?.image_ids, [kept.id, removed.id])
+    assert.deepEqual((await storage.redirects.list()).map(r => [r.from_slug, r.to_slug]), [['kept', 'kept-renamed']])
+    assert.deepEqual(await diffSnapshot(snapshot.id), { added: [], removed: [], changed: [] })
+
+    const events = await storage.events.list()
+    assert.equal(events.at(-1)?.action, 'snapshot-restore')
+  })
+
+  it('returns null for an unknown snapshot', async () => {
+    assert.equal(await restoreSnapshot('missing'), null)
+    assert.equal(await diffSnapshot('missing'), null)
+  })
+})
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { after, before, describe, it } from 'node:test'
+import { createImage } from '@/lib/db'
+import { listSnapshots } from '@/lib/snapshots'
+import type { StorageBackend } from '@/lib/storage'
+import { listTrash, purgeExpiredTrash, purgeTrash, restoreImages, trashImages } from '@/lib/trash'
+import { UPLOAD_DIR } from '@/lib/uploads'
+import { newImage, removeTempDirs, tempDir, useMemoryStorage } from './helpers'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const createdFiles: string[] = []
+
+/** A file in public/uploads, as an upload would leave it */
+function uploadFile(name: string): { url: string; file: string } {
+  const file = path.join(UPLOAD_DIR, `test-${process.pid}-${name}`)
+  fs.mkdirSync(UPLOAD_DIR, { recursive: true })
+  fs.writeFileSync(file, 'data')
+  createdFiles.push(file)
+  return { url: `/uploads/${path.basename(file)}`, file }
+}
+
+describe('trash', () => {
+  let storage: StorageBackend
+  before(() => {
+    process.env.SNAPSHOT_DIR = tempDir('snapshots')
+    process.env.TRASH_RETENTION_DAYS = '30'
+    storage = useMemoryStorage()
+  })
+  after(() => {
+    for (const file of createdFiles) fs.rmSync(file, { force: true })
+    removeTempDirs()
+  })
+
+  it('moves images to the trash and back', async () => {
+    const image = await createImage(newImage('bin'))
+
+    assert.deepEqual(await trashImages([image.id, 9999]), [image.id])
+    assert.deepEqual(await trashImages([image.id]), [])
+    const [trashed] = await listTrash()
+    assert.equal(trashed.id, image.id)
+    assert.equal(trashed.purge_at, new Date(new Date(trashed.deleted_at).getTime() + 30 * DAY_MS).toISOString())
+
+    const [restored] = await restoreImages([image.id])
+    assert.equal(restored.deleted_at, undefined)
+    assert.deepEqual(await listTrash(), [])
+  })
+
+  it('purges only trashed images, then deletes their files', async () => {
+    const upload = uploadFile('purged.jpg')
+    const purged = await createImage(newImage('purged', { image_url: upload.url, thumbnail_url: upload.url }))
+    const live = await createImage(newImage('live'))
+    await trashImages([purged.id])
+
+    assert.deepEqual(await purgeTrash([purged.id, live.id]), [purged.id])
+    assert.equal(await storage.images.get(purged.id), null)
+    assert.ok(await storage.images.get(live.id))
+    assert.equal(fs.existsSync(upload.file), false)
+    assert.deepEqual(await storage.getMeta('pendingFileRemovals'), [])
+    assert.equal((await storage.events.list()).at(-1)?.action, 'purge')
+  })
+
+  it('finishes deleting the files of a purge that was cut short', async () => {
+    const upload = uploadFile('left-over.jpg')
+    await storage.setMeta('pendingFileRemovals', [upload.file])
+
+    assert.deepEqual(await purgeTrash(), [])
+    assert.equal(fs.existsSync(upload.file), false)
+    assert.deepEqual(await storage.getMeta('pendingFileRemovals'), [])
+  })
+
+  it('purges expired images after a snapshot that still has them', async () => {
+    const expired = await createImage(newImage('expired'))
+    const recent = await createImage(newImage('recent'))
+    await trashImages([recent.id])
+    await storage.images.update([{ id: expired.id, changes: { deleted_at: new Date(Date.now() - 40 * DAY_MS).toISOString() } }])
+
+    assert.deepEqual(await purgeExpiredTrash(), [expired.id])
+    assert.deepEqual((await listTrash()).map(img => img.id), [recent.id])
+
+    const [snapshot] = listSnapshots()
+    assert.equal(snapshot.reason, 'purge-expired')
+    const file = JSON.parse(fs.readFileSync(path.join(process.env.SNAPSHOT_DIR as string, `${snapshot.id}.json`), 'utf8'))
+    assert.ok(file.images.some((img: { id: number }) => img.id === expired.id))
+  })
+})